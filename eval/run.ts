@@ -0,0 +1,77 @@
+/**
+ * Offline search evaluation (Node)
+ *
+ *   npm run eval -- [--suite eval/fixtures/intuition.queries.json]
+ *                   [--models ./models] [--embedder Xenova/all-MiniLM-L6-v2]
+ *                   [--k 1,3,5,10] [--json]
+ *                   [--ranking '{"lengthBoost":{"enabled":false}}']
+ *                   [--rerank] [--reranker-model Xenova/ms-marco-MiniLM-L-6-v2]
+ *
+ * With --models, models load only from that directory (laid out as
+ * <dir>/<model id>/...), so runs are reproducible offline. Without it they
+ * are downloaded once into the Transformers.js cache.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { env, pipeline } from '@huggingface/transformers';
+import { parseTranscript } from '../src/lib/import';
+import { DEFAULT_MODEL_SETTINGS, RERANKER_MODEL, getEmbedderModel } from '../src/lib/models';
+import { loadCrossEncoder } from '../src/lib/reranker';
+import { evaluateSearch, formatReport, type EvalSuite } from '../src/lib/evaluation';
+import type { RankingOverrides } from '../src/types';
+
+const { values } = parseArgs({
+  options: {
+    suite: { type: 'string', default: 'eval/fixtures/intuition.queries.json' },
+    models: { type: 'string' },
+    embedder: { type: 'string', default: DEFAULT_MODEL_SETTINGS.embedderModel },
+    k: { type: 'string', default: '1,3,5,10' },
+    json: { type: 'boolean', default: false },
+    ranking: { type: 'string' },
+    rerank: { type: 'boolean', default: false },
+    'reranker-model': { type: 'string', default: RERANKER_MODEL },
+  },
+});
+
+async function main(): Promise<void> {
+  const suitePath = path.resolve(values.suite);
+  const suite = JSON.parse(await readFile(suitePath, 'utf8')) as EvalSuite;
+  const transcriptPath = path.resolve(path.dirname(suitePath), suite.transcript);
+  const segments = parseTranscript(await readFile(transcriptPath, 'utf8'), transcriptPath);
+
+  if (values.models) {
+    env.localModelPath = path.resolve(values.models);
+    env.allowRemoteModels = false;
+  }
+
+  const embedder = await pipeline('feature-extraction', values.embedder, { dtype: 'q8' });
+  const embed = async (text: string) => Array.from((await embedder(text, { pooling: 'mean', normalize: true })).data as Float32Array);
+  // Models outside the catalog are sized by embedding a probe
+  const dimensions = getEmbedderModel(values.embedder)?.dimensions ?? (await embed('dimension probe')).length;
+
+  const k = values.k.split(',').map(Number).filter((cutoff) => Number.isInteger(cutoff) && cutoff > 0);
+  if (k.length === 0) throw new Error(`Invalid --k: ${values.k}`);
+
+  const ranking = values.ranking ? JSON.parse(values.ranking) as RankingOverrides : undefined;
+  const rerankerModel = values.rerank ? values['reranker-model'] : undefined;
+  const crossEncoder = rerankerModel ? await loadCrossEncoder(rerankerModel, { device: 'cpu', dtype: 'q8' }) : undefined;
+
+  const report = await evaluateSearch({ segments, queries: suite.queries, embed, dimensions, k, ranking, crossEncode: crossEncoder?.score });
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const extras = [rerankerModel && `reranker ${rerankerModel}`, ranking && `ranking ${values.ranking}`].filter(Boolean);
+    console.log(`${suite.queries.length} queries over ${segments.length} segments · ${[values.embedder, ...extras].join(' · ')}\n`);
+    console.log(formatReport(report));
+  }
+  await embedder.dispose();
+  await crossEncoder?.dispose();
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
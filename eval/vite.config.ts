@@ -0,0 +1,15 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Bundles the evaluation runner for Node. Dependencies stay external and
+ * resolve from node_modules, so Transformers.js picks its onnxruntime-node backend.
+ */
+export default defineConfig({
+  build: {
+    ssr: 'eval/run.ts',
+    outDir: 'node_modules/.tmp/eval',
+    emptyOutDir: true,
+    target: 'node20',
+    copyPublicDir: false,
+  },
+});
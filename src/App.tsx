@@ -1,17 +1,23 @@
-import React, {useCallback} from 'react';
+import React, {useCallback, useMemo} from 'react';
 import { 
-  Mic, FileText, Search as SearchIcon, AlertCircle, X, Github, Trash2
+  Mic, FileText, Search as SearchIcon, AlertCircle, X, Github, Trash2, Library, Loader2, Languages, ScanSearch, RotateCcw
 } from 'lucide-react';
 import clsx from 'clsx';
 import { useInsightContext } from './hooks/InsightContext';
 import { useAudioPlayer } from './hooks/useAudioPlayer';
-import { AudioVisualizer, DropZone, SearchBar, TranscriptView, AudioPlayer } from './components';
+import { AudioVisualizer, DropZone, SearchBar, TranscriptView, AudioPlayer, EpisodeList, ExportMenu, SpeakerList, SettingsPanel, AnswerCard, ChapterList } from './components';
+import { getSpeakers, getSpeakerLabel } from './lib/speakers';
+import { findMatchTime } from './lib/words';
+import { formatClock } from './lib/time';
+import { getLanguageLabel } from './lib/models';
+import type { QAAnswer, RecoveryInfo, ResumableJob, SearchResult, TranscriptSegment } from './types';
 
 export function App() {
   const {
-    isModelReady, isTranscribing, isSearching, device, progress,
-    audioFile, segments, searchResults, searchQuery, error,
-    loadAudio, search, clearAll, setSearchQuery,
+    isModelReady, isTranscribing, isRecording, isSearching, device, models, settings, progress,
+    audioFile, episodes, draftEpisode, activeEpisodeId, segments, searchResults, searchQuery, searchScope, searchMode, searchFilters, queryHints, similarTo, searchHistory, keyPhrases, answer, speakerFilter, chapteringEpisodeId, recovery, error,
+    resumableJobs, loadAudio, cancelTranscription, resumeJob, discardJob, startRecording, stopRecording,
+    selectEpisode, removeEpisode, generateChapters, search, findSimilar, setSearchScope, setSearchMode, setSearchFilters, setSpeakerFilter, rememberQuery, togglePinnedQuery, forgetQuery, renameSpeaker, clearSearch, clearAll, updateSettings, setSearchQuery,
   } = useInsightContext();
   
   const {
@@ -19,27 +25,101 @@ export function App() {
     play, pause, seek, setVolume,
   } = useAudioPlayer(audioFile?.url ?? null);
   
-  const handleFileSelect = useCallback(async (file: File) => {
-    await loadAudio(file);
+  // Failed jobs already show in the error banner, failed searches under the search bar
+  const handleFileSelect = useCallback((file: File, transcript?: File) => {
+    loadAudio(file, transcript).catch(() => undefined);
   }, [loadAudio]);
   
+  const handleResume = useCallback((job: ResumableJob) => {
+    resumeJob(job).catch(() => undefined);
+  }, [resumeJob]);
+  
+  const handleStopRecording = useCallback(() => {
+    stopRecording().catch(() => undefined);
+  }, [stopRecording]);
+  
+  const handleClearAll = useCallback(() => {
+    clearAll().catch(() => undefined);
+  }, [clearAll]);
+  
   const handleSegmentClick = useCallback((segment: { start: number }) => {
     seek(segment.start);
     if (!isPlaying) play();
   }, [seek, isPlaying, play]);
   
+  // Seek requested for an episode whose audio is still loading
+  const [pendingSeek, setPendingSeek] = React.useState<number | null>(null);
+  
+  React.useEffect(() => {
+    const audio = audioRef.current;
+    // readyState drops back to HAVE_NOTHING as soon as the src switches
+    if (pendingSeek === null || duration === 0 || !audio || audio.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    seek(pendingSeek);
+    play();
+    setPendingSeek(null);
+  }, [pendingSeek, duration, audioRef, seek, play]);
+  
+  /**
+   * Play `episodeId` from `time`, switching episodes first when needed.
+   */
+  const playAt = useCallback(async (episodeId: string, time: number) => {
+    if (episodeId === activeEpisodeId) {
+      handleSegmentClick({ start: time });
+      return;
+    }
+    await selectEpisode(episodeId);
+    setPendingSeek(time);
+  }, [activeEpisodeId, handleSegmentClick, selectEpisode]);
+  
+  const handleResultClick = useCallback(async (result: SearchResult) => {
+    // Results carry no word timings; take them from the episode's own segments the result spans
+    const isActive = result.episodeId === activeEpisodeId;
+    const episodeSegments = isActive ? segments : episodes.find((episode) => episode.id === result.episodeId)?.segments;
+    const spanIds = result.segmentIds ?? [result.segment.id];
+    const spanned = episodeSegments?.filter((candidate) => spanIds.includes(candidate.id)) ?? [];
+    const segment = spanned.length > 0 ? { ...result.segment, words: spanned.flatMap((candidate) => candidate.words ?? []) } : result.segment;
+    // A query that led somewhere is worth suggesting again
+    rememberQuery(searchQuery);
+    await playAt(result.episodeId, findMatchTime(segment, searchQuery, result.matchedText));
+  }, [activeEpisodeId, segments, episodes, searchQuery, rememberQuery, playAt]);
+  
+  const handleAnswerPlay = useCallback(async (qaAnswer: QAAnswer) => {
+    await playAt(qaAnswer.episodeId, qaAnswer.start);
+  }, [playAt]);
+  
+  // Heatmap and transcript highlighting only concern the episode on screen
+  const activeResults = useMemo(
+    () => searchResults.filter((result) => result.episodeId === activeEpisodeId),
+    [searchResults, activeEpisodeId]
+  );
+  
+  const episodesById = useMemo(
+    () => new Map(episodes.map((episode) => [episode.id, episode])),
+    [episodes]
+  );
+  const hasLibrary = episodes.length > 1;
+  
   const handleSearch = useCallback((query?: string) => {
     const q = typeof query === 'string' ? query : searchQuery;
-    if (q.trim()) search(q);
+    if (q.trim()) search(q).catch(() => undefined);
   }, [searchQuery, search]);
   
+  const handleFindSimilar = useCallback((episodeId: string, segment: TranscriptSegment) => {
+    findSimilar(episodeId, segment).catch(() => undefined);
+  }, [findSimilar]);
+  
   const [dismissedError, setDismissedError] = React.useState(false);
   const handleDismissError = useCallback(() => setDismissedError(true), []);
   
   React.useEffect(() => { if (error) setDismissedError(false); }, [error]);
   
   const showError = error && !dismissedError;
-  const hasTranscript = segments.length > 0;
+  const hasTranscript = episodes.length > 0 || draftEpisode !== null;
+  const isDraftActive = draftEpisode !== null && draftEpisode.id === activeEpisodeId;
+  const activeEpisode = isDraftActive
+    ? draftEpisode
+    : episodes.find((episode) => episode.id === activeEpisodeId) ?? null;
+  const speakers = useMemo(() => getSpeakers(segments), [segments]);
   
   return (
     <div className="min-h-screen bg-slate-950 flex flex-col">
@@ -60,11 +140,12 @@ export function App() {
             </div>
             <div className="flex items-center gap-4">
               {hasTranscript && (
-                <button onClick={clearAll} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                <button onClick={handleClearAll} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
                   <Trash2 className="w-4 h-4" />
                   <span className="hidden sm:inline">Clear</span>
                 </button>
               )}
+              <SettingsPanel settings={settings} onApply={updateSettings} disabled={isTranscribing || isRecording} />
               <a title='github' href="https://github.com" target="_blank" rel="noopener noreferrer" className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
                 <Github className="w-5 h-5" />
               </a>
@@ -87,6 +168,19 @@ export function App() {
         </div>
       )}
       
+      {recovery && recovery.status !== 'failed' && (
+        <div className={clsx('border-b', recovery.status === 'restarting' ? 'bg-amber-500/10 border-amber-500/20' : 'bg-emerald-500/10 border-emerald-500/20')}>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+            <div className={clsx('flex items-center gap-3', recovery.status === 'restarting' ? 'text-amber-400' : 'text-emerald-400')}>
+              {recovery.status === 'restarting'
+                ? <Loader2 className="w-5 h-5 flex-shrink-0 animate-spin" />
+                : <RotateCcw className="w-5 h-5 flex-shrink-0" />}
+              <p className="text-sm flex-1">{formatRecovery(recovery)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+      
       <main className="flex-1 max-w-7xl mx-auto w-full px-3 sm:px-6 lg:px-8 py-4 sm:py-8">
         {!hasTranscript ? (
           <div className="flex flex-col items-center justify-center min-h-[50vh] sm:min-h-[60vh] gap-4 sm:gap-8">
@@ -100,7 +194,7 @@ export function App() {
               </p>
             </div>
             <div className="w-full max-w-xl animate-slide-up">
-              <DropZone onFileSelect={handleFileSelect} isProcessing={isTranscribing} progress={progress} isModelReady={isModelReady} device={device} />
+              <DropZone onFileSelect={handleFileSelect} isProcessing={isTranscribing} progress={progress} isModelReady={isModelReady} device={device} onCancel={cancelTranscription} resumableJobs={resumableJobs} onResume={handleResume} onDiscard={discardJob} isRecording={isRecording} onStartRecording={startRecording} onStopRecording={handleStopRecording} />
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-6 w-full max-w-3xl mt-4 sm:mt-8 px-2">
                <FeatureCard icon={<Mic className="w-5 h-5 sm:w-6 sm:h-6" />} title="Local Transcription" description="Whisper AI runs entirely in your browser" />
@@ -111,47 +205,128 @@ export function App() {
         ) : (
           <div className="flex flex-col gap-6">
             <div className="flex justify-center sticky top-20 z-40">
-              <SearchBar query={searchQuery} onQueryChange={setSearchQuery} onSearch={handleSearch} isSearching={isSearching} resultCount={searchResults.length} disabled={!hasTranscript} />
+              <SearchBar query={searchQuery} onQueryChange={setSearchQuery} onSearch={handleSearch} isSearching={isSearching} resultCount={searchResults.length} disabled={!hasTranscript} mode={searchMode} onModeChange={setSearchMode} filters={searchFilters} onFiltersChange={setSearchFilters} hints={queryHints} history={searchHistory} keyPhrases={keyPhrases} onRememberQuery={rememberQuery} onTogglePin={togglePinnedQuery} onForgetQuery={forgetQuery} />
             </div>
             <div className="mt-4">
-              <AudioVisualizer audioUrl={audioFile?.url ?? null} currentTime={currentTime} duration={duration} searchResults={searchResults} onSeek={seek} isPlaying={isPlaying} />
+              <AudioVisualizer audioUrl={audioFile?.url ?? null} currentTime={currentTime} duration={duration} searchResults={activeResults} chapters={activeEpisode?.chapters} onSeek={seek} isPlaying={isPlaying} />
             </div>
             <AudioPlayer src={audioFile?.url ?? null} isPlaying={isPlaying} currentTime={currentTime} duration={duration} volume={volume} onPlay={play} onPause={pause} onSeek={seek} onVolumeChange={setVolume} fileName={audioFile?.name} />
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 bg-slate-900/50 rounded-xl border border-slate-800 p-3 sm:p-4">
+              <div className="lg:col-span-2">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+                    <Library className="w-4 h-4 sm:w-5 sm:h-5 text-insight-400" /> Library
+                  </h3>
+                  <span className="text-xs sm:text-sm text-slate-500">{episodes.length} episode{episodes.length !== 1 ? 's' : ''}</span>
+                </div>
+                <EpisodeList episodes={episodes} activeEpisodeId={activeEpisodeId} onSelect={selectEpisode} onRemove={removeEpisode} />
+              </div>
+              <DropZone onFileSelect={handleFileSelect} isProcessing={isTranscribing} progress={progress} isModelReady={isModelReady} device={device} onCancel={cancelTranscription} resumableJobs={resumableJobs} onResume={handleResume} onDiscard={discardJob} isRecording={isRecording} onStartRecording={startRecording} onStopRecording={handleStopRecording} compact />
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
               <div className="lg:col-span-2 bg-slate-900/50 rounded-xl border border-slate-800 p-3 sm:p-4">
                 <div className="flex items-center justify-between mb-3 sm:mb-4">
                   <h3 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
                     <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-insight-400" /> Transcript
                   </h3>
-                  <span className="text-xs sm:text-sm text-slate-500">{segments.length} segments</span>
+                  <span className="flex items-center gap-2 text-xs sm:text-sm text-slate-500">
+                    {isDraftActive && (
+                      <span className="flex items-center gap-1 text-insight-400">
+                        <Loader2 className="w-3 h-3 animate-spin" /> {isRecording ? 'Live' : 'Transcribing'}
+                      </span>
+                    )}
+                    {activeEpisode?.language && (
+                      <span className="flex items-center gap-1" title="Spoken language">
+                        <Languages className="w-3 h-3" /> {getLanguageLabel(activeEpisode.language)}
+                      </span>
+                    )}
+                    {segments.length} segments
+                    <ExportMenu episode={activeEpisode} models={models} searchResults={activeResults} searchQuery={searchQuery} />
+                  </span>
                 </div>
-                <div className="h-[300px] sm:h-[400px] overflow-hidden">
-                  <TranscriptView segments={segments} currentTime={currentTime} searchResults={searchResults} onSegmentClick={handleSegmentClick} searchQuery={searchQuery} />
+                <SpeakerList speakers={speakers} speakerNames={activeEpisode?.speakerNames} filter={speakerFilter} onFilterChange={setSpeakerFilter} onRename={activeEpisode && !isDraftActive ? (speaker, name) => renameSpeaker(activeEpisode.id, speaker, name) : undefined} />
+                <div className="flex gap-3 h-[300px] sm:h-[400px]">
+                  <div className="flex-1 min-w-0 overflow-hidden">
+                    <TranscriptView segments={segments} currentTime={currentTime} searchResults={activeResults} onSegmentClick={handleSegmentClick} searchQuery={searchQuery} speakerNames={activeEpisode?.speakerNames} onWordClick={handleSegmentClick} onFindSimilar={activeEpisode && !isDraftActive ? (segment) => handleFindSimilar(activeEpisode.id, segment) : undefined} similarSegmentId={similarTo?.episodeId === activeEpisodeId ? similarTo?.segment.id : undefined} />
+                  </div>
+                  <div className="hidden md:block w-56 flex-shrink-0">
+                    <ChapterList
+                      chapters={activeEpisode?.chapters}
+                      currentTime={currentTime}
+                      onSelect={handleSegmentClick}
+                      onGenerate={activeEpisode && !isDraftActive && !chapteringEpisodeId ? () => generateChapters(activeEpisode.id) : undefined}
+                      isGenerating={chapteringEpisodeId !== null && chapteringEpisodeId === activeEpisode?.id}
+                      progress={progress}
+                    />
+                  </div>
                 </div>
               </div>
               <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-3 sm:p-4">
-                <h3 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2 mb-3 sm:mb-4">
-                  <SearchIcon className="w-4 h-4 sm:w-5 sm:h-5 text-insight-400" /> Search Results
-                </h3>
+                <div className="flex items-center justify-between gap-2 mb-3 sm:mb-4">
+                  <h3 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+                    <SearchIcon className="w-4 h-4 sm:w-5 sm:h-5 text-insight-400" /> Search Results
+                  </h3>
+                  {hasLibrary && (
+                    <div className="flex rounded-lg bg-slate-800 p-0.5 text-[10px] sm:text-xs">
+                      {(['active', 'all'] as const).map((scope) => (
+                        <button key={scope} type="button" onClick={() => setSearchScope(scope)} className={clsx('px-2 py-1 rounded-md transition-colors', searchScope === scope ? 'bg-insight-600 text-white' : 'text-slate-400 hover:text-white')}>
+                          {scope === 'active' ? 'This episode' : 'All episodes'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {similarTo && (
+                  <div className="flex items-center gap-2 mb-3 px-2 py-1.5 rounded-lg bg-insight-500/10 border border-insight-500/30 text-xs text-slate-300">
+                    <ScanSearch className="w-3.5 h-3.5 text-insight-400 flex-shrink-0" />
+                    <span className="flex-1 truncate" title={similarTo.segment.text}>
+                      Similar to {formatClock(similarTo.segment.start)}
+                      {hasLibrary && similarTo.episodeId !== activeEpisodeId && ` in ${episodesById.get(similarTo.episodeId)?.fileName ?? 'another episode'}`}: “{similarTo.segment.text}”
+                    </span>
+                    <button type="button" title="Clear" onClick={clearSearch} className="p-0.5 rounded text-slate-400 hover:text-white">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
                 {searchResults.length > 0 ? (
                   <div className="space-y-2 sm:space-y-3 h-[250px] sm:h-[400px] overflow-y-auto custom-scrollbar">
+                    {answer ? (
+                      <AnswerCard
+                        answer={answer}
+                        episodeName={hasLibrary ? episodesById.get(answer.episodeId)?.fileName : undefined}
+                        speakerLabel={answer.segment.speaker ? getSpeakerLabel(episodesById.get(answer.episodeId)?.speakerNames, answer.segment.speaker) : undefined}
+                        onPlay={handleAnswerPlay}
+                      />
+                    ) : searchMode === 'ask' && !isSearching && (
+                      <p className="text-xs sm:text-sm text-slate-500">No confident answer found. These are the closest passages:</p>
+                    )}
                     {searchResults.map((result, index) => (
-                      <div key={result.segment.id} onClick={() => handleSegmentClick(result.segment)} className={clsx('p-2 sm:p-3 rounded-lg cursor-pointer transition-all duration-200 border border-slate-700 hover:border-slate-600 bg-slate-800/50 hover:bg-slate-800 active:bg-slate-700')}>
+                      <div key={result.segment.id} onClick={() => handleResultClick(result)} className={clsx('p-2 sm:p-3 rounded-lg cursor-pointer transition-all duration-200 border border-slate-700 hover:border-slate-600 bg-slate-800/50 hover:bg-slate-800 active:bg-slate-700')}>
                         <div className="flex items-center justify-between mb-1 sm:mb-2">
                           <span className="text-[10px] sm:text-xs text-slate-500">#{index + 1}</span>
+                          {result.rerankScore !== undefined && (
+                            <span title="Cross-encoder relevance of the matched passage to your query" className="ml-auto mr-2 text-[10px] sm:text-xs text-slate-400">
+                              Reranker {(result.rerankScore * 100).toFixed(0)}%
+                            </span>
+                          )}
                           <span className={clsx('px-1.5 sm:px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium', result.score > 0.7 && 'bg-red-500/20 text-red-400', result.score > 0.5 && result.score <= 0.7 && 'bg-yellow-500/20 text-yellow-400', result.score <= 0.5 && 'bg-green-500/20 text-green-400')}>
                             {(result.score * 100).toFixed(0)}%
                           </span>
                         </div>
                         <p className="text-xs sm:text-sm text-slate-300 line-clamp-2">{result.segment.text}</p>
-                        <p className="text-[10px] sm:text-xs text-slate-500 mt-1 sm:mt-2">{formatTime(result.segment.start)} - {formatTime(result.segment.end)}</p>
+                        <p className="text-[10px] sm:text-xs text-slate-500 mt-1 sm:mt-2 truncate">
+                          {formatClock(result.segment.start)} - {formatClock(result.segment.end)}
+                          {result.translated && <span className="ml-2 text-slate-400">· via English translation</span>}
+                          {result.segment.speaker && <span className="ml-2 text-slate-400">· {getSpeakerLabel(episodesById.get(result.episodeId)?.speakerNames, result.segment.speaker)}</span>}
+                          {hasLibrary && <span className={clsx('ml-2', result.episodeId === activeEpisodeId ? 'text-insight-400' : 'text-slate-400')}>· {episodesById.get(result.episodeId)?.fileName}</span>}
+                        </p>
                       </div>
                     ))}
                   </div>
                 ) : (
                   <div className="flex flex-col items-center justify-center h-[250px] sm:h-[400px] text-slate-500">
                     <SearchIcon className="w-8 h-8 sm:w-12 sm:h-12 mb-2 sm:mb-3 opacity-50" />
-                    <p className="text-xs sm:text-sm text-center px-2">{searchQuery ? 'No results found' : 'Enter a search query'}</p>
+                    <p className="text-xs sm:text-sm text-center px-2">{similarTo ? 'No similar moments found' : searchQuery ? 'No results found' : 'Enter a search query'}</p>
                   </div>
                 )}
               </div>
@@ -184,11 +359,15 @@ function FeatureCard({ icon, title, description }: { icon: React.ReactNode; titl
   );
 }
 
-function formatTime(seconds: number): string {
-  if (!isFinite(seconds)) return '0:00';
-  const m = Math.floor(seconds / 60);
-  const s = Math.floor(seconds % 60);
-  return `${m}:${s.toString().padStart(2, '0')}`;
+function formatRecovery({ worker, status, reason, retried }: RecoveryInfo): string {
+  const name = worker === 'asr' ? 'Speech recognition' : 'The AI engine';
+  if (status === 'restarting') {
+    return worker === 'asr'
+      ? `${reason}. Restarting speech recognition...`
+      : `${reason}. Restarting, reloading models and restoring your library...`;
+  }
+  const retriedNote = retried ? ` Retried ${retried} interrupted ${retried === 1 ? 'operation' : 'operations'}.` : '';
+  return `${name} recovered.${retriedNote}`;
 }
 
 export default App;
\ No newline at end of file
@@ -0,0 +1,376 @@
+/**
+ * InsightCast ASR Worker
+ *
+ * Runs Whisper and the speaker model on their own thread, so the index
+ * worker keeps answering searches while a file is transcribing. It holds
+ * no library state: the index worker sends it one window of audio at a
+ * time (through the coordinator) and gets back diarized segments.
+ */
+
+import {
+  pipeline,
+  AutoProcessor,
+  AutoModelForXVector,
+  AutomaticSpeechRecognitionPipeline,
+  Tensor,
+  type PreTrainedModel,
+  type Processor,
+} from '@huggingface/transformers';
+
+import type {
+  AsrWorkerInputMessage,
+  AsrWorkerOutputMessage,
+  AsrConfigureMessage,
+  AsrTranscribeMessage,
+  ModelSettings,
+  TranscriptSegment,
+  TranscriptWord,
+  SpeakerCentroid,
+} from './types';
+
+import { assignSpeaker, normalize } from './lib/diarization';
+import { checkWebGPUSupport, createProgressCallback, resolveDtype, type LoadingStage } from './lib/runtime';
+import { DEFAULT_MODEL_SETTINGS, AUTO_LANGUAGE, getAsrModel } from './lib/models';
+
+const DIARIZER_MODEL = 'Xenova/wavlm-base-plus-sv';
+
+const SAMPLE_RATE = 16000;
+// Segments shorter than this carry too little voice to embed; they keep the previous speaker
+const MIN_SPEAKER_SAMPLE_S = 1;
+// Word-level output is regrouped into segments at pauses, sentence ends or this length
+const SEGMENT_PAUSE_S = 0.8;
+const MAX_SEGMENT_S = 15;
+const MIN_SENTENCE_WORDS = 4;
+// Audio Whisper looks at to detect the spoken language
+const LANGUAGE_PROBE_S = 30;
+// Consecutive windows word timings may fail on before they are given up for the loaded model
+const MAX_WORD_TIMESTAMP_FAILURES = 3;
+
+let currentDevice: 'webgpu' | 'wasm' = 'wasm';
+let settings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+// What the pipeline was loaded with, so configure only reloads what changed
+let loadedAsrConfig: string | null = null;
+let diarizerAttempted = false;
+let asrPipeline: AutomaticSpeechRecognitionPipeline | null = null;
+// Optional: transcription works without speaker labels if this fails to load
+let speakerProcessor: Processor | null = null;
+let speakerModel: PreTrainedModel | null = null;
+// Windows in a row whose word timings failed; past the limit the model is taken to lack them
+let wordTimestampFailures = 0;
+// Requests run one at a time, so a configure replayed after a restart finishes before the retried windows
+let queue: Promise<void> = Promise.resolve();
+
+function postMessage(message: AsrWorkerOutputMessage): void {
+  self.postMessage(message);
+}
+
+function log(message: string, data?: any) {
+  console.log(`[ASR Worker] ${message}`, data || '');
+}
+
+function progressCallback(stage: LoadingStage) {
+  return createProgressCallback(stage, postMessage);
+}
+
+/**
+ * Load (or switch to) the speech model in `message.settings`, plus the
+ * speaker model on first use. A failed switch keeps the previous model.
+ */
+async function configure(message: AsrConfigureMessage): Promise<void> {
+  const { requestId, settings: target } = message;
+  try {
+    const asrOption = getAsrModel(target.asrModel);
+    if (!asrOption) throw new Error('Unknown model selection');
+
+    const hasWebGPU = await checkWebGPUSupport();
+    const asrDevice = target.device === 'webgpu' && hasWebGPU ? 'webgpu' : 'wasm';
+    const asrDtype = resolveDtype(target.asrDtype, 'q8');
+    const asrConfig = [target.asrModel, asrDtype, asrDevice].join('|');
+    if (asrConfig !== loadedAsrConfig) {
+      postMessage({ type: 'progress', stage: 'loading-asr', progress: 5, message: `Loading ${asrOption.label} (${asrDevice.toUpperCase()})...` });
+      const next = await pipeline<'automatic-speech-recognition'>('automatic-speech-recognition', target.asrModel, {
+        device: asrDevice, dtype: asrDtype, progress_callback: progressCallback('loading-asr'),
+      });
+      await asrPipeline?.dispose();
+      asrPipeline = next;
+      loadedAsrConfig = asrConfig;
+      currentDevice = asrDevice;
+      wordTimestampFailures = 0;
+    }
+    settings = target;
+
+    // Speaker embeddings (best-effort, independent of the settings)
+    if (!diarizerAttempted) {
+      diarizerAttempted = true;
+      postMessage({ type: 'progress', stage: 'loading-diarizer', progress: 0, message: 'Loading Speaker Model (CPU)...' });
+      try {
+        speakerProcessor = await AutoProcessor.from_pretrained(DIARIZER_MODEL, {});
+        speakerModel = await AutoModelForXVector.from_pretrained(DIARIZER_MODEL, {
+          device: 'wasm', dtype: 'q8', progress_callback: progressCallback('loading-diarizer'),
+        });
+      } catch (error) {
+        speakerProcessor = null;
+        speakerModel = null;
+        log('Speaker model unavailable, continuing without diarization', error);
+      }
+    }
+
+    postMessage({ type: 'asr-configured', requestId, device: currentDevice, ...(speakerModel ? { diarizer: DIARIZER_MODEL } : {}) });
+  } catch (error) {
+    postMessage({ type: 'asr-error', requestId, message: error instanceof Error ? error.message : 'Failed to load speech model' });
+  }
+}
+
+async function transcribe(message: AsrTranscribeMessage): Promise<void> {
+  const { requestId, samples, offset, language: fileLanguage, speakers } = message;
+  try {
+    if (!asrPipeline) throw new Error('Models not loaded');
+    const { segments, language } = await transcribeInLanguage(samples, offset, fileLanguage);
+    await diarizeSegments(segments, samples, offset, speakers);
+    postMessage({ type: 'asr-transcript', requestId, segments, language, speakers });
+  } catch (error) {
+    postMessage({ type: 'asr-error', requestId, message: error instanceof Error ? error.message : 'Transcription failed' });
+  }
+}
+
+function generateId(): string {
+  return `seg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Build segments out of timed words: a new segment starts after a pause,
+ * after a finished sentence, or once the current one gets too long.
+ */
+function groupWords(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    const first = current[0];
+    const last = current[current.length - 1];
+    if (first && last) {
+      segments.push({ id: generateId(), start: first.start, end: last.end, text: current.map((word) => word.text).join(' '), words: current });
+    }
+    current = [];
+  };
+
+  for (const word of words) {
+    const first = current[0];
+    const last = current[current.length - 1];
+    if (first && last) {
+      const isPause = word.start - last.end > SEGMENT_PAUSE_S;
+      const isSentenceEnd = /[.!?]["']?$/.test(last.text) && current.length >= MIN_SENTENCE_WORDS;
+      const isTooLong = word.end - first.start > MAX_SEGMENT_S;
+      if (isPause || isSentenceEnd || isTooLong) flush();
+    }
+    current.push(word);
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Language options for the configured Whisper model; English-only
+ * checkpoints reject them.
+ */
+function getLanguageOptions(language: string | undefined, task: 'transcribe' | 'translate' = 'transcribe'): { language?: string; task?: 'transcribe' | 'translate' } {
+  return getAsrModel(settings.asrModel)?.multilingual ? { language, task } : {};
+}
+
+/**
+ * Detect the spoken language of `samples` from Whisper's first decoding step:
+ * the most likely language token after <|startoftranscript|>.
+ * Returns a Whisper language code, or undefined if the model can't tell.
+ */
+async function detectLanguage(samples: Float32Array): Promise<string | undefined> {
+  if (!asrPipeline) throw new Error('Models not loaded');
+
+  const { model, processor } = asrPipeline;
+  const generationConfig = model.generation_config as { lang_to_id?: Record<string, number>; decoder_start_token_id?: number } | null;
+  const langToId = generationConfig?.lang_to_id;
+  const startToken = generationConfig?.decoder_start_token_id;
+  if (!langToId || startToken === undefined) return undefined;
+
+  try {
+    const inputs = await processor(samples.subarray(0, LANGUAGE_PROBE_S * SAMPLE_RATE));
+    const { logits } = await model({
+      ...inputs,
+      decoder_input_ids: new Tensor('int64', BigInt64Array.from([BigInt(startToken)]), [1, 1]),
+    }) as { logits: Tensor };
+    const scores = (logits.type === 'float32' ? logits : logits.to('float32')).data as Float32Array;
+
+    let best: string | undefined;
+    let bestScore = -Infinity;
+    for (const [token, id] of Object.entries(langToId)) {
+      const score = scores[id] ?? -Infinity;
+      if (score > bestScore) {
+        bestScore = score;
+        best = token.slice(2, -2); // <|es|> -> es
+      }
+    }
+    return best;
+  } catch (error) {
+    log('Language detection failed', error);
+    return undefined;
+  }
+}
+
+async function transcribeWords(samples: Float32Array, offset: number, language?: string): Promise<TranscriptSegment[]> {
+  if (!asrPipeline) throw new Error('Models not loaded');
+
+  const transcriptionResult = await asrPipeline(samples, {
+    return_timestamps: 'word', chunk_length_s: 30, stride_length_s: 5, ...getLanguageOptions(language),
+  });
+
+  const windowEnd = offset + samples.length / SAMPLE_RATE;
+  const words: TranscriptWord[] = [];
+  const results = Array.isArray(transcriptionResult) ? transcriptionResult : [transcriptionResult];
+
+  for (const result of results) {
+    for (const chunk of result.chunks ?? []) {
+      const [start, end] = chunk.timestamp as [number, number | null];
+      const text = chunk.text?.trim() ?? '';
+      if (!text) continue;
+      const wordStart = Math.min(offset + start, windowEnd);
+      words.push({ text, start: wordStart, end: Math.max(wordStart, Math.min(offset + (end ?? start), windowEnd)) });
+    }
+  }
+  return groupWords(words);
+}
+
+async function transcribeWindow(samples: Float32Array, offset: number, language?: string): Promise<TranscriptSegment[]> {
+  if (wordTimestampFailures < MAX_WORD_TIMESTAMP_FAILURES) {
+    try {
+      const segments = await transcribeWords(samples, offset, language);
+      wordTimestampFailures = 0;
+      return segments;
+    } catch (error) {
+      wordTimestampFailures++;
+      log(wordTimestampFailures < MAX_WORD_TIMESTAMP_FAILURES
+        ? 'Word-level timestamps failed for this window, using segment timestamps'
+        : 'Word-level timestamps unavailable, using segment timestamps', error);
+    }
+  }
+
+  return transcribeChunks(samples, offset, language, 'transcribe');
+}
+
+/**
+ * Chunk-level transcription (or, with `translate`, English translation) of a window.
+ */
+async function transcribeChunks(samples: Float32Array, offset: number, language: string | undefined, task: 'transcribe' | 'translate'): Promise<TranscriptSegment[]> {
+  if (!asrPipeline) throw new Error('Models not loaded');
+
+  const transcriptionResult = await asrPipeline(samples, {
+    return_timestamps: true, chunk_length_s: 30, stride_length_s: 5, ...getLanguageOptions(language, task),
+  });
+
+  const windowEnd = offset + samples.length / SAMPLE_RATE;
+  const segments: TranscriptSegment[] = [];
+  const results = Array.isArray(transcriptionResult) ? transcriptionResult : [transcriptionResult];
+
+  for (const result of results) {
+    if (result.chunks && Array.isArray(result.chunks)) {
+      for (const chunk of result.chunks) {
+        const [start, end] = chunk.timestamp as [number, number | null];
+        const text = chunk.text?.trim() ?? '';
+        // Whisper leaves the end open when speech runs past the window
+        if (text) segments.push({ id: generateId(), start: offset + start, end: Math.min(offset + (end ?? windowEnd), windowEnd), text });
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Attach each translated chunk to the original segment it overlaps most,
+ * so the translation shares the segment's ID, timing and speaker.
+ */
+function alignTranslation(segments: TranscriptSegment[], translated: TranscriptSegment[]): void {
+  const parts = new Map<TranscriptSegment, string[]>();
+
+  for (const chunk of translated) {
+    let best: TranscriptSegment | undefined;
+    let bestOverlap = -Infinity;
+    for (const segment of segments) {
+      const overlap = Math.min(segment.end, chunk.end) - Math.max(segment.start, chunk.start);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        best = segment;
+      }
+    }
+    if (best) parts.set(best, [...(parts.get(best) ?? []), chunk.text]);
+  }
+
+  for (const [segment, texts] of parts) {
+    segment.translation = texts.join(' ');
+  }
+}
+
+/**
+ * Transcribe one window in its spoken language.
+ * `fileLanguage` is the language already known for the file; with the
+ * language set to auto it is detected here when missing (or on every
+ * window with per-window detection). Non-English windows also get an
+ * English translation when translation is enabled.
+ */
+async function transcribeInLanguage(samples: Float32Array, offset: number, fileLanguage?: string): Promise<{ segments: TranscriptSegment[]; language?: string }> {
+  if (!getAsrModel(settings.asrModel)?.multilingual) {
+    return { segments: await transcribeWindow(samples, offset), language: 'en' };
+  }
+
+  let language = settings.language === AUTO_LANGUAGE ? fileLanguage : settings.language;
+  if (settings.language === AUTO_LANGUAGE && (!language || settings.detectPerWindow)) {
+    language = await detectLanguage(samples) ?? language;
+  }
+
+  const segments = await transcribeWindow(samples, offset, language);
+  if (settings.detectPerWindow && language) {
+    for (const segment of segments) segment.language = language;
+  }
+
+  if (settings.translate && language && language !== 'en' && segments.length > 0) {
+    alignTranslation(segments, await transcribeChunks(samples, offset, language, 'translate'));
+  }
+  return { segments, language };
+}
+
+/**
+ * Label `segments` (all within `samples`, which starts at `offset` seconds)
+ * with speaker IDs by clustering their speaker embeddings into `speakers`.
+ * Best-effort: without the speaker model, or on failure, segments stay unlabelled.
+ */
+async function diarizeSegments(segments: TranscriptSegment[], samples: Float32Array, offset: number, speakers: SpeakerCentroid[]): Promise<void> {
+  if (!speakerProcessor || !speakerModel) return;
+
+  try {
+    let previous: string | undefined;
+    for (const segment of segments) {
+      const from = Math.max(0, Math.floor((segment.start - offset) * SAMPLE_RATE));
+      const to = Math.min(samples.length, Math.ceil((segment.end - offset) * SAMPLE_RATE));
+
+      if (to - from < MIN_SPEAKER_SAMPLE_S * SAMPLE_RATE) {
+        if (previous) segment.speaker = previous;
+        continue;
+      }
+
+      const inputs = await speakerProcessor(samples.slice(from, to));
+      const { embeddings } = await speakerModel(inputs);
+      segment.speaker = assignSpeaker(speakers, normalize(embeddings.data as Float32Array));
+      previous = segment.speaker;
+    }
+  } catch (error) {
+    log('Diarization failed for window', error);
+  }
+}
+
+
+self.onmessage = (event: MessageEvent<AsrWorkerInputMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'ping': postMessage({ type: 'pong' }); break;
+    case 'asr-configure': queue = queue.then(() => configure(message)); break;
+    case 'asr-transcribe': queue = queue.then(() => transcribe(message)); break;
+  }
+};
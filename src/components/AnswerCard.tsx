@@ -0,0 +1,58 @@
+import { MessageCircleQuestion, Play } from 'lucide-react';
+import type { QAAnswer } from '../types';
+import { formatClock } from '../lib/time';
+
+interface AnswerCardProps {
+  answer: QAAnswer;
+  /** File name of the answer's episode, shown when searching the whole library */
+  episodeName?: string;
+  speakerLabel?: string;
+  onPlay: (answer: QAAnswer) => void;
+}
+
+export function AnswerCard({ answer, episodeName, speakerLabel, onPlay }: AnswerCardProps) {
+  const index = answer.context.toLowerCase().indexOf(answer.text.toLowerCase());
+
+  return (
+    <div className="p-3 sm:p-4 rounded-lg border border-insight-500/40 bg-insight-500/10">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="flex items-center gap-1.5 text-[10px] sm:text-xs font-medium uppercase tracking-wide text-insight-400">
+          <MessageCircleQuestion className="w-3.5 h-3.5" /> Answer
+        </span>
+        <span title="Question answering model confidence" className="text-[10px] sm:text-xs text-slate-400">
+          {(answer.score * 100).toFixed(0)}% confident
+        </span>
+      </div>
+
+      <p className="text-base sm:text-lg font-semibold text-white">{answer.text}</p>
+
+      {/* Supporting passage with the answer span highlighted */}
+      <p className="mt-2 text-xs sm:text-sm text-slate-400 line-clamp-3">
+        {index === -1 ? answer.context : (
+          <>
+            {answer.context.slice(0, index)}
+            <mark className="bg-insight-500/30 text-slate-200 rounded px-0.5">
+              {answer.context.slice(index, index + answer.text.length)}
+            </mark>
+            {answer.context.slice(index + answer.text.length)}
+          </>
+        )}
+      </p>
+
+      <div className="flex items-center justify-between gap-2 mt-3">
+        <p className="text-[10px] sm:text-xs text-slate-500 truncate">
+          {formatClock(answer.start)} - {formatClock(answer.end)}
+          {speakerLabel && <span className="ml-2 text-slate-400">· {speakerLabel}</span>}
+          {episodeName && <span className="ml-2 text-slate-400">· {episodeName}</span>}
+        </p>
+        <button
+          type="button"
+          onClick={() => onPlay(answer)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-insight-600 text-white text-xs font-medium hover:bg-insight-500 transition-colors flex-shrink-0"
+        >
+          <Play className="w-3.5 h-3.5" /> Play from here
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   RotateCcw 
 } from 'lucide-react';
 import clsx from 'clsx';
+import { formatClock } from '../lib/time';
 
 interface AudioPlayerProps {
   src: string | null;
@@ -166,26 +167,10 @@ export function AudioPlayer({
       
       {/* Time display */}
       <div className="flex justify-center text-xs sm:text-sm text-slate-400">
-        <span className="font-mono">{formatTime(currentTime)}</span>
+        <span className="font-mono">{formatClock(currentTime)}</span>
         <span className="mx-1 sm:mx-2">/</span>
-        <span className="font-mono">{formatTime(duration)}</span>
+        <span className="font-mono">{formatClock(duration)}</span>
       </div>
     </div>
   );
 }
-
-/**
- * Format seconds to MM:SS or HH:MM:SS.
- */
-function formatTime(seconds: number): string {
-  if (!isFinite(seconds)) return '0:00';
-  
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  
-  if (h > 0) {
-    return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-  }
-  return `${m}:${s.toString().padStart(2, '0')}`;
-}
@@ -1,11 +1,14 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import type { SearchResult } from '../types';
+import type { Chapter, SearchResult } from '../types';
+import { formatClock } from '../lib/time';
 
 interface AudioVisualizerProps {
   audioUrl: string | null;
   currentTime: number;
   duration: number;
   searchResults: SearchResult[];
+  /** Drawn as markers at each chapter start */
+  chapters?: Chapter[];
   onSeek: (time: number) => void;
   isPlaying: boolean;
 }
@@ -20,6 +23,7 @@ export function AudioVisualizer({
   currentTime,
   duration,
   searchResults,
+  chapters,
   onSeek,
   isPlaying,
 }: AudioVisualizerProps) {
@@ -347,10 +351,24 @@ export function AudioVisualizer({
         }}
       />
       
+      {duration > 0 && chapters?.map((chapter, index) => index > 0 && (
+        <button
+          key={chapter.start}
+          type="button"
+          title={`${formatClock(chapter.start)} · ${chapter.title}`}
+          onClick={() => onSeek(chapter.start)}
+          style={{ left: `${(chapter.start / duration) * 100}%` }}
+          className="absolute top-0 bottom-0 w-2 -translate-x-1/2 group"
+        >
+          <span className="absolute left-1/2 top-0 bottom-0 w-px bg-amber-400/60 group-hover:bg-amber-300" />
+          <span className="absolute left-1/2 top-0 w-2 h-2 -translate-x-1/2 rotate-45 -translate-y-1 bg-amber-400 group-hover:bg-amber-300" />
+        </button>
+      ))}
+      
       {duration > 0 && (
         <div className="absolute bottom-1 left-2 right-2 flex justify-between text-[10px] sm:text-xs text-slate-400 pointer-events-none">
-          <span>{formatTime(currentTime)}</span>
-          <span>{formatTime(duration)}</span>
+          <span>{formatClock(currentTime)}</span>
+          <span>{formatClock(duration)}</span>
         </div>
       )}
       
@@ -373,17 +391,3 @@ export function AudioVisualizer({
     </div>
   );
 }
-
-
-function formatTime(seconds: number): string {
-  if (!isFinite(seconds)) return '0:00';
-  
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = Math.floor(seconds % 60);
-  
-  if (h > 0) {
-    return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-  }
-  return `${m}:${s.toString().padStart(2, '0')}`;
-}
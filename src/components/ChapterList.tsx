@@ -0,0 +1,81 @@
+import { ListTree, Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import clsx from 'clsx';
+import type { Chapter, ProgressInfo } from '../types';
+import { formatClock } from '../lib/time';
+
+interface ChapterListProps {
+  chapters?: Chapter[];
+  currentTime: number;
+  onSelect: (chapter: Chapter) => void;
+  /** Omit while chapters can't be generated (e.g. the episode is still a draft) */
+  onGenerate?: () => void;
+  isGenerating: boolean;
+  progress: ProgressInfo | null;
+}
+
+export function ChapterList({
+  chapters,
+  currentTime,
+  onSelect,
+  onGenerate,
+  isGenerating,
+  progress,
+}: ChapterListProps) {
+  const hasChapters = chapters !== undefined && chapters.length > 0;
+
+  return (
+    <div className="flex flex-col h-full rounded-lg border border-slate-800 bg-slate-900/40">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-800">
+        <span className="flex items-center gap-1.5 text-xs font-medium text-slate-300">
+          <ListTree className="w-3.5 h-3.5 text-insight-400" /> Chapters
+        </span>
+        {hasChapters && onGenerate && !isGenerating && (
+          <button type="button" title="Regenerate chapters" onClick={onGenerate} className="p-1 rounded text-slate-500 hover:text-white hover:bg-slate-800 transition-colors">
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isGenerating ? (
+        <div className="flex flex-col items-center justify-center flex-1 gap-2 p-3 text-center text-xs text-slate-400">
+          <Loader2 className="w-5 h-5 text-insight-400 animate-spin" />
+          <span>{progress?.message ?? 'Generating chapters...'}</span>
+        </div>
+      ) : hasChapters ? (
+        <ol className="flex-1 overflow-y-auto custom-scrollbar p-1.5 space-y-1">
+          {chapters.map((chapter, index) => {
+            const isCurrent = currentTime >= chapter.start && currentTime < chapter.end;
+            return (
+              <li key={chapter.start}>
+                <button
+                  type="button"
+                  title={chapter.summary}
+                  onClick={() => onSelect(chapter)}
+                  className={clsx(
+                    'w-full text-left px-2 py-1.5 rounded-md transition-colors',
+                    isCurrent ? 'bg-insight-500/15 text-white' : 'text-slate-300 hover:bg-slate-800'
+                  )}
+                >
+                  <span className="flex items-baseline gap-2">
+                    <span className="text-[10px] text-slate-500 tabular-nums">{formatClock(chapter.start)}</span>
+                    <span className="text-xs font-medium line-clamp-1">{index + 1}. {chapter.title}</span>
+                  </span>
+                  <span className="block mt-0.5 text-[11px] text-slate-500 line-clamp-2">{chapter.summary}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <div className="flex flex-col items-center justify-center flex-1 gap-2 p-3 text-center text-xs text-slate-500">
+          <p>Split the episode into topics with a title and summary each.</p>
+          {onGenerate && (
+            <button type="button" onClick={onGenerate} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-insight-600 text-white font-medium hover:bg-insight-500 transition-colors">
+              <Sparkles className="w-3.5 h-3.5" /> Generate chapters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
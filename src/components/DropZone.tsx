@@ -1,14 +1,28 @@
-import React, { useCallback, useState, useRef } from 'react';
-import { Upload, FileAudio, Loader2, Cpu, Zap } from 'lucide-react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
+import { Upload, FileAudio, Loader2, Cpu, Zap, X, RotateCw, Trash2, Mic, Square } from 'lucide-react';
 import clsx from 'clsx';
-import type { ProgressInfo } from '../types';
+import type { ProgressInfo, ResumableJob } from '../types';
+import { isTranscriptFile, TRANSCRIPT_EXTENSIONS } from '../lib/import';
 
 interface DropZoneProps {
-  onFileSelect: (file: File) => void;
+  /** An audio file, plus an optional SRT/VTT/JSON transcript to use instead of Whisper */
+  onFileSelect: (file: File, transcript?: File) => void;
   isProcessing: boolean;
   progress: ProgressInfo | null;
   isModelReady: boolean;
   device: 'webgpu' | 'wasm' | null;
+  /** Smaller layout for adding episodes next to an open transcript */
+  compact?: boolean;
+  /** Stop the running transcription */
+  onCancel?: () => void;
+  /** Interrupted jobs that can be picked up again */
+  resumableJobs?: ResumableJob[];
+  onResume?: (job: ResumableJob) => void;
+  onDiscard?: (job: ResumableJob) => void;
+  /** Live microphone capture */
+  isRecording?: boolean;
+  onStartRecording?: () => void;
+  onStopRecording?: () => void;
 }
 
 const ACCEPTED_FORMATS = [
@@ -25,30 +39,65 @@ const ACCEPTED_FORMATS = [
   'audio/flac',
 ];
 
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'mp4', 'm4a', 'ogg', 'webm', 'flac'];
+
 export function DropZone({
   onFileSelect,
   isProcessing,
   progress,
   isModelReady,
   device,
+  compact = false,
+  onCancel,
+  resumableJobs = [],
+  onResume,
+  onDiscard,
+  isRecording = false,
+  onStartRecording,
+  onStopRecording,
 }: DropZoneProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [dragError, setDragError] = useState<string | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const validateFile = useCallback((file: File): boolean => {
-    if (!ACCEPTED_FORMATS.includes(file.type)) {
-      // Also check by extension
-      const ext = file.name.split('.').pop()?.toLowerCase();
-      const validExts = ['mp3', 'wav', 'mp4', 'm4a', 'ogg', 'webm', 'flac'];
-      if (!ext || !validExts.includes(ext)) {
-        setDragError(`Unsupported format. Please use: MP3, WAV, M4A, OGG, WebM, or FLAC`);
-        return false;
-      }
+  const isBusy = isProcessing || isRecording;
+  
+  // Elapsed time while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    
+    const startedAt = Date.now();
+    setRecordingSeconds(0);
+    const interval = window.setInterval(() => {
+      setRecordingSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+    
+    return () => window.clearInterval(interval);
+  }, [isRecording]);
+  
+  /**
+   * Split a selection into the audio file and an optional transcript.
+   * The transcript is only honoured when it comes with its audio.
+   */
+  const selectFiles = useCallback((files: File[]) => {
+    const transcript = files.find(isTranscriptFile);
+    const audio = files.find((file) => !isTranscriptFile(file));
+    
+    if (!audio) {
+      setDragError(transcript
+        ? 'Drop the audio file together with its transcript'
+        : 'Unsupported format. Please use: MP3, WAV, M4A, OGG, WebM, or FLAC');
+      return;
     }
+    if (!isAudioFile(audio)) {
+      setDragError(`Unsupported format. Please use: MP3, WAV, M4A, OGG, WebM, or FLAC`);
+      return;
+    }
+    
     setDragError(null);
-    return true;
-  }, []);
+    onFileSelect(audio, transcript);
+  }, [onFileSelect]);
   
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
@@ -56,22 +105,19 @@ export function DropZone({
     event.stopPropagation();
     setIsDragOver(false);
     
-    if (isProcessing || !isModelReady) return;
+    if (isBusy || !isModelReady) return;
     
-    const file = event.dataTransfer.files[0];
-    if (file && validateFile(file)) {
-      onFileSelect(file);
-    }
-  }, [isProcessing, isModelReady, onFileSelect, validateFile]);
+    selectFiles(Array.from(event.dataTransfer.files));
+  }, [isBusy, isModelReady, selectFiles]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
     
-    if (!isProcessing && isModelReady) {
+    if (!isBusy && isModelReady) {
       setIsDragOver(true);
     }
-  }, [isProcessing, isModelReady]);
+  }, [isBusy, isModelReady]);
   
 
   const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
@@ -82,20 +128,17 @@ export function DropZone({
   
 
   const handleClick = useCallback(() => {
-    if (!isProcessing && isModelReady && fileInputRef.current) {
+    if (!isBusy && isModelReady && fileInputRef.current) {
       fileInputRef.current.click();
     }
-  }, [isProcessing, isModelReady]);
+  }, [isBusy, isModelReady]);
   
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && validateFile(file)) {
-      onFileSelect(file);
-    }
+    selectFiles(Array.from(event.target.files ?? []));
     // Reset input for re-selection of same file
     event.target.value = '';
-  }, [onFileSelect, validateFile]);
+  }, [selectFiles]);
 
   const renderContent = () => {
     // Loading models state
@@ -135,6 +178,40 @@ export function DropZone({
       );
     }
     
+    // Recording state
+    if (isRecording) {
+      return (
+        <div className="flex flex-col items-center gap-4">
+          <div className="relative">
+            <Mic className="w-16 h-16 text-red-400 animate-pulse" />
+          </div>
+          
+          <div className="text-center">
+            <h3 className="text-lg font-semibold text-white mb-1">
+              Recording {formatElapsed(recordingSeconds)}
+            </h3>
+            <p className="text-sm text-slate-400 max-w-xs">
+              Transcript appears every few seconds as you speak
+            </p>
+          </div>
+          
+          {onStopRecording && (
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onStopRecording();
+              }}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-red-300 hover:text-white hover:bg-red-500/20 border border-red-500/40 transition-colors"
+            >
+              <Square className="w-3.5 h-3.5" />
+              Stop
+            </button>
+          )}
+        </div>
+      );
+    }
+    
     // Processing/transcribing state
     if (isProcessing && progress) {
       return (
@@ -150,6 +227,11 @@ export function DropZone({
             <p className="text-sm text-slate-400 max-w-xs">
               {progress.message}
             </p>
+            {(progress.throughput !== undefined || progress.eta !== undefined) && (
+              <p className="text-xs text-slate-500 mt-1 tabular-nums">
+                {formatThroughput(progress)}
+              </p>
+            )}
           </div>
           
           {/* Progress bar */}
@@ -159,6 +241,20 @@ export function DropZone({
               style={{ width: `${progress.progress}%` }}
             />
           </div>
+          
+          {onCancel && (
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onCancel();
+              }}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 border border-slate-700 transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+          )}
         </div>
       );
     }
@@ -188,6 +284,9 @@ export function DropZone({
           <p className="text-xs text-slate-500 mt-2">
             Supports MP3, WAV, M4A, OGG, WebM, FLAC
           </p>
+          <p className="text-xs text-slate-500">
+            Add its .srt, .vtt or .json transcript to skip transcription
+          </p>
         </div>
         
         {/* Device indicator */}
@@ -212,11 +311,47 @@ export function DropZone({
           </div>
         )}
         
+        {onStartRecording && isModelReady && (
+          <button
+            type="button"
+            onClick={(event) => {
+              event.stopPropagation();
+              onStartRecording();
+            }}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:text-white hover:bg-slate-800 border border-slate-700 transition-colors"
+          >
+            <Mic className="w-3.5 h-3.5 text-red-400" />
+            Record from microphone
+          </button>
+        )}
+        
         {dragError && (
           <p className="text-sm text-red-400 mt-2">
             {dragError}
           </p>
         )}
+        
+        {/* Interrupted jobs */}
+        {resumableJobs.length > 0 && (
+          <ul className="w-full max-w-sm flex flex-col gap-1.5" onClick={(event) => event.stopPropagation()}>
+            {resumableJobs.map((job) => (
+              <li key={job.episodeId} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/70 border border-slate-700 text-xs">
+                <span className="flex-1 min-w-0 truncate text-slate-300">{job.fileName}</span>
+                <span className="text-slate-500">{job.progress.toFixed(0)}%</span>
+                {onResume && (
+                  <button type="button" title="Resume" onClick={() => onResume(job)} className="p-1 rounded text-insight-400 hover:bg-insight-500/20 transition-colors">
+                    <RotateCw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {onDiscard && (
+                  <button type="button" title="Discard" onClick={() => onDiscard(job)} className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     );
   };
@@ -224,11 +359,12 @@ export function DropZone({
   return (
     <div
       className={clsx(
-        'relative w-full min-h-[280px] rounded-2xl border-2 border-dashed transition-all duration-300 flex items-center justify-center p-8',
+        'relative w-full rounded-2xl border-2 border-dashed transition-all duration-300 flex items-center justify-center',
+        compact ? 'min-h-[140px] p-4' : 'min-h-[280px] p-8',
         isDragOver && isModelReady && 'border-insight-500 bg-insight-500/10 scale-[1.02]',
         !isDragOver && isModelReady && 'border-slate-600 hover:border-slate-500 bg-slate-900/50',
         !isModelReady && 'border-slate-700 bg-slate-900/30',
-        isModelReady && !isProcessing && 'cursor-pointer'
+        isModelReady && !isBusy && 'cursor-pointer'
       )}
       onDrop={handleDrop}
       onDragOver={handleDragOver}
@@ -240,7 +376,8 @@ export function DropZone({
       title='file input'
         ref={fileInputRef}
         type="file"
-        accept={ACCEPTED_FORMATS.join(',')}
+        accept={[...ACCEPTED_FORMATS, ...TRANSCRIPT_EXTENSIONS.map((ext) => `.${ext}`)].join(',')}
+        multiple
         onChange={handleFileChange}
         className="hidden"
       />
@@ -256,3 +393,33 @@ export function DropZone({
     </div>
   );
 }
+
+
+/**
+ * Format elapsed seconds as M:SS.
+ */
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Embedding rate and time left, e.g. "24.5 passages/s · about 1:20 left".
+ */
+function formatThroughput({ throughput, eta }: ProgressInfo): string {
+  const parts: string[] = [];
+  if (throughput !== undefined) parts.push(`${throughput.toFixed(1)} passages/s`);
+  if (eta !== undefined) parts.push(`about ${formatElapsed(Math.ceil(eta))} left`);
+  return parts.join(' · ');
+}
+
+
+function isAudioFile(file: File): boolean {
+  if (ACCEPTED_FORMATS.includes(file.type)) return true;
+  
+  // Also check by extension
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  return ext !== undefined && AUDIO_EXTENSIONS.includes(ext);
+}
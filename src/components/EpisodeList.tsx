@@ -0,0 +1,73 @@
+import { Library, Trash2, Clock } from 'lucide-react';
+import clsx from 'clsx';
+import type { Episode } from '../types';
+import { formatClock } from '../lib/time';
+
+interface EpisodeListProps {
+  episodes: Episode[];
+  activeEpisodeId: string | null;
+  onSelect: (episodeId: string) => void;
+  onRemove: (episodeId: string) => void;
+}
+
+export function EpisodeList({
+  episodes,
+  activeEpisodeId,
+  onSelect,
+  onRemove,
+}: EpisodeListProps) {
+  if (episodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-6 text-slate-500">
+        <Library className="w-8 h-8 mb-2 opacity-50" />
+        <p className="text-xs sm:text-sm">No episodes yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="flex flex-col gap-1.5 max-h-[240px] overflow-y-auto pr-1 custom-scrollbar">
+      {episodes.map((episode) => {
+        const isActive = episode.id === activeEpisodeId;
+
+        return (
+          <li
+            key={episode.id}
+            onClick={() => onSelect(episode.id)}
+            className={clsx(
+              'group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer border transition-colors',
+              isActive
+                ? 'border-insight-500/60 bg-insight-500/15'
+                : 'border-slate-700 bg-slate-800/50 hover:bg-slate-800'
+            )}
+          >
+            <div className="flex-1 min-w-0">
+              <p className={clsx(
+                'text-xs sm:text-sm truncate',
+                isActive ? 'text-white' : 'text-slate-300'
+              )}>
+                {episode.fileName}
+              </p>
+              <p className="flex items-center gap-1 text-[10px] sm:text-xs text-slate-500">
+                <Clock className="w-3 h-3" />
+                {formatClock(episode.duration)} · {episode.segments.length} segments
+              </p>
+            </div>
+
+            <button
+              type="button"
+              title="Remove episode"
+              onClick={(event) => {
+                event.stopPropagation();
+                onRemove(episode.id);
+              }}
+              className="p-1.5 rounded-md text-slate-500 hover:text-red-400 hover:bg-red-500/10 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-all"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
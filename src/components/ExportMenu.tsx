@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import clsx from 'clsx';
+import type { Episode, ModelInfo, SearchResult } from '../types';
+import { buildExport, downloadExport, type ExportFormat } from '../lib/export';
+
+interface ExportMenuProps {
+  episode: Episode | null;
+  models: ModelInfo | null;
+  /** Current search hits in this episode, offered as a highlights export */
+  searchResults: SearchResult[];
+  searchQuery: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'srt', label: 'SRT', hint: 'Subtitles' },
+  { format: 'vtt', label: 'WebVTT', hint: 'Subtitles for the web' },
+  { format: 'chapters', label: 'Chapters', hint: 'WebVTT chapter track' },
+  { format: 'json', label: 'JSON', hint: 'Segments, chapters and model info' },
+  { format: 'markdown', label: 'Markdown', hint: 'Readable document' },
+  { format: 'text', label: 'Plain text', hint: 'Just the words' },
+];
+
+export function ExportMenu({
+  episode,
+  models,
+  searchResults,
+  searchQuery,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeTimestamps, setIncludeTimestamps] = useState(true);
+  const [highlightsOnly, setHighlightsOnly] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const hasHighlights = searchResults.length > 0;
+  const hasChapters = (episode?.chapters?.length ?? 0) > 0;
+  const formats = FORMATS.filter(({ format }) => format !== 'chapters' || hasChapters);
+  const isDisabled = !episode || episode.segments.length === 0;
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    if (!episode) return;
+
+    const file = buildExport(episode, models, {
+      format,
+      includeTimestamps,
+      highlights: highlightsOnly && hasHighlights
+        ? { query: searchQuery, results: searchResults }
+        : undefined,
+    });
+    downloadExport(file);
+    setIsOpen(false);
+  }, [episode, models, includeTimestamps, highlightsOnly, hasHighlights, searchQuery, searchResults]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        disabled={isDisabled}
+        onClick={() => setIsOpen((open) => !open)}
+        className={clsx(
+          'flex items-center gap-1 px-2 py-1 rounded-md text-xs border transition-colors',
+          isDisabled
+            ? 'border-slate-800 text-slate-600 cursor-not-allowed'
+            : 'border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800'
+        )}
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-56 p-2 rounded-lg bg-slate-900 border border-slate-700 shadow-xl">
+          <ul className="flex flex-col">
+            {formats.map(({ format, label, hint }) => (
+              <li key={format}>
+                <button
+                  type="button"
+                  onClick={() => handleExport(format)}
+                  className="w-full flex items-baseline justify-between gap-2 px-2 py-1.5 rounded-md text-left hover:bg-slate-800 transition-colors"
+                >
+                  <span className="text-sm text-slate-200">{label}</span>
+                  <span className="text-[10px] text-slate-500">{hint}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-2 pt-2 border-t border-slate-800 flex flex-col gap-1.5 px-2 text-xs text-slate-400">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeTimestamps}
+                onChange={(event) => setIncludeTimestamps(event.target.checked)}
+                className="accent-insight-500"
+              />
+              Timestamps in Markdown / text
+            </label>
+            <label className={clsx('flex items-center gap-2', hasHighlights ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed')}>
+              <input
+                type="checkbox"
+                checked={highlightsOnly && hasHighlights}
+                disabled={!hasHighlights}
+                onChange={(event) => setHighlightsOnly(event.target.checked)}
+                className="accent-insight-500"
+              />
+              Only search results ({searchResults.length})
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
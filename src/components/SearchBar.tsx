@@ -1,6 +1,10 @@
-import React, { useCallback, useState, useEffect, useRef } from 'react';
-import { Search, X, Loader2, Sparkles } from 'lucide-react';
+import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { Search, X, Loader2, Sparkles, MessageCircleQuestion, Info, History, Pin, PinOff, Hash } from 'lucide-react';
 import clsx from 'clsx';
+import type { SearchFilters, SearchHistoryEntry } from '../types';
+import type { SearchMode } from '../hooks/useInsight';
+import { suggestQueries, type QuerySuggestion } from '../lib/suggestions';
+import { SearchFilterMenu } from './SearchFilterMenu';
 
 interface SearchBarProps {
   query: string;
@@ -9,6 +13,20 @@ interface SearchBarProps {
   isSearching: boolean;
   resultCount: number;
   disabled: boolean;
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  /** Notes on query operators that couldn't be applied */
+  hints?: string[];
+  /** Past and pinned queries of the active transcript */
+  history?: SearchHistoryEntry[];
+  /** Recurring phrases of the active transcript */
+  keyPhrases?: string[];
+  /** Called when a query is submitted or picked from the suggestions */
+  onRememberQuery: (query: string) => void;
+  onTogglePin: (query: string) => void;
+  onForgetQuery: (query: string) => void;
 }
 
 export function SearchBar({
@@ -18,38 +36,106 @@ export function SearchBar({
   isSearching,
   resultCount,
   disabled,
+  mode,
+  onModeChange,
+  filters,
+  onFiltersChange,
+  hints = [],
+  history = [],
+  keyPhrases = [],
+  onRememberQuery,
+  onTogglePin,
+  onForgetQuery,
 }: SearchBarProps) {
   const [isFocused, setIsFocused] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   
+  const suggestions = useMemo(() => suggestQueries(query, history, keyPhrases), [query, history, keyPhrases]);
+  const showSuggestions = isSuggesting && isFocused && !disabled && suggestions.length > 0;
+  const activeIndex = highlighted < suggestions.length ? highlighted : -1;
+  
   /**
    * Handle input change with debounced search.
    */
   const handleChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
     onQueryChange(value);
+    setIsSuggesting(true);
+    setHighlighted(-1);
     
     // Clear existing debounce
     if (debounceRef.current) {
       clearTimeout(debounceRef.current);
     }
     
-    // Debounce search
-    if (value.trim().length >= 2) {
+    // Debounce search; questions are only answered once submitted
+    if (mode === 'search' && value.trim().length >= 2) {
       debounceRef.current = setTimeout(() => {
         onSearch(value);
       }, 500);
     }
-  }, [onQueryChange, onSearch]);
+  }, [onQueryChange, onSearch, mode]);
   
 
   const handleSubmit = useCallback((event: React.FormEvent) => {
     event.preventDefault();
     if (query.trim() && !disabled) {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      setIsSuggesting(false);
       onSearch();
+      onRememberQuery(query);
     }
-  }, [query, disabled, onSearch]);
+  }, [query, disabled, onSearch, onRememberQuery]);
+  
+
+  const pickSuggestion = useCallback((suggestion: QuerySuggestion) => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    setIsSuggesting(false);
+    setHighlighted(-1);
+    onQueryChange(suggestion.text);
+    onSearch(suggestion.text);
+    onRememberQuery(suggestion.text);
+  }, [onQueryChange, onSearch, onRememberQuery]);
+  
+  /**
+   * Arrow keys move through the suggestions, Enter runs the highlighted
+   * one (or the typed query when none is), Escape closes the list.
+   */
+  const handleInputKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!showSuggestions) {
+        setIsSuggesting(true);
+        return;
+      }
+      // Cycle through the suggestions and back to the typed query (-1)
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      const positions = suggestions.length + 1;
+      setHighlighted((activeIndex + 1 + step + positions) % positions - 1);
+      return;
+    }
+    
+    if (event.key === 'Enter' && showSuggestions && activeIndex >= 0) {
+      const suggestion = suggestions[activeIndex];
+      if (suggestion) {
+        event.preventDefault();
+        pickSuggestion(suggestion);
+      }
+      return;
+    }
+    
+    if (event.key === 'Escape') {
+      if (showSuggestions) {
+        setIsSuggesting(false);
+        setHighlighted(-1);
+      } else {
+        inputRef.current?.blur();
+      }
+    }
+  }, [showSuggestions, activeIndex, suggestions, pickSuggestion]);
   
   /**
    * Clear search.
@@ -59,11 +145,24 @@ export function SearchBar({
     inputRef.current?.focus();
   }, [onQueryChange]);
   
+  /**
+   * Cmd/Ctrl+K focuses the search with its suggestions open; pressed
+   * again while focused, it toggles the suggestions.
+   */
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if ((event.metaKey || event.ctrlKey) && event.key === 'k') {
         event.preventDefault();
-        inputRef.current?.focus();
+        const input = inputRef.current;
+        if (!input) return;
+        setHighlighted(-1);
+        if (document.activeElement === input) {
+          setIsSuggesting((open) => !open);
+        } else {
+          input.focus();
+          input.select();
+          setIsSuggesting(true);
+        }
       }
     };
     
@@ -102,12 +201,27 @@ export function SearchBar({
           type="text"
           value={query}
           onChange={handleChange}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleInputKeyDown}
+          onFocus={() => {
+            setIsFocused(true);
+            setIsSuggesting(true);
+          }}
+          onBlur={() => {
+            setIsFocused(false);
+            setHighlighted(-1);
+          }}
           disabled={disabled}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+          title={mode === 'search' ? 'Supports "exact phrases", -exclude, a OR b, speaker:name, after:12:30 and before:45:00' : undefined}
           placeholder={disabled 
             ? "Transcribe audio first..." 
-            : "Search concepts, topics, ideas..."}
+            : mode === 'ask'
+              ? "Ask a question, press Enter..."
+              : "Search concepts, topics, ideas..."}
           className={clsx(
             'flex-1 bg-transparent text-white placeholder-slate-500 outline-none text-xs sm:text-sm min-w-0',
             disabled && 'cursor-not-allowed'
@@ -115,9 +229,19 @@ export function SearchBar({
         />
         
         {!disabled && (
-          <div className="hidden sm:flex items-center gap-1 px-2 py-1 rounded bg-slate-700/50 text-xs text-slate-400">
-            <Sparkles className="w-3 h-3 text-insight-400" />
-            <span>Semantic</span>
+          <SearchFilterMenu filters={filters} onChange={onFiltersChange} disabled={mode === 'ask'} />
+        )}
+        
+        {!disabled && (
+          <div className="flex items-center rounded bg-slate-700/50 p-0.5 text-xs flex-shrink-0">
+            <ModeButton active={mode === 'search'} title="Find matching segments" onClick={() => onModeChange('search')}>
+              <Sparkles className="w-3 h-3" />
+              <span className="hidden sm:inline">Search</span>
+            </ModeButton>
+            <ModeButton active={mode === 'ask'} title="Answer a question from the transcripts" onClick={() => onModeChange('ask')}>
+              <MessageCircleQuestion className="w-3 h-3" />
+              <span className="hidden sm:inline">Ask</span>
+            </ModeButton>
           </div>
         )}
         
@@ -140,9 +264,35 @@ export function SearchBar({
         )}
       </div>
       
+      {showSuggestions && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          // Keep focus in the input so picking a suggestion doesn't close the list first
+          onMouseDown={(event) => event.preventDefault()}
+          className="absolute left-2 right-2 sm:left-0 sm:right-0 top-full mt-2 z-40 py-1 rounded-lg bg-slate-900 border border-slate-700 shadow-xl text-xs sm:text-sm"
+        >
+          {suggestions.map((suggestion, index) => (
+            <SuggestionItem
+              key={`${suggestion.source}:${suggestion.text}`}
+              id={`search-suggestion-${index}`}
+              suggestion={suggestion}
+              isActive={index === activeIndex}
+              onPick={() => pickSuggestion(suggestion)}
+              onHover={() => setHighlighted(index)}
+              onTogglePin={() => onTogglePin(suggestion.text)}
+              onForget={suggestion.source === 'phrase' ? undefined : () => onForgetQuery(suggestion.text)}
+            />
+          ))}
+          <li className="hidden sm:block px-3 pt-1.5 mt-1 border-t border-slate-800 text-[10px] text-slate-500">
+            ↑↓ to choose · Enter to search · Esc to close
+          </li>
+        </ul>
+      )}
+      
       {query && resultCount > 0 && !isSearching && (
         <div className="absolute -bottom-5 sm:-bottom-6 left-4 text-[10px] sm:text-xs text-slate-400">
-          Found {resultCount} segment{resultCount !== 1 ? 's' : ''}
+          {mode === 'ask' ? 'Answered from' : 'Found'} {resultCount} segment{resultCount !== 1 ? 's' : ''}
         </div>
       )}
       
@@ -151,6 +301,102 @@ export function SearchBar({
           No matches
         </div>
       )}
+      
+      {hints.length > 0 && !isSearching && (
+        <div className="absolute -bottom-5 sm:-bottom-6 right-4 flex items-center gap-1 max-w-[60%] text-[10px] sm:text-xs text-amber-400">
+          <Info className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate" title={hints.join('\n')}>{hints.join(' · ')}</span>
+        </div>
+      )}
     </form>
   );
 }
+
+interface ModeButtonProps {
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+function ModeButton({ active, title, onClick, children }: ModeButtonProps) {
+  return (
+    <button
+      type="button"
+      title={title}
+      onClick={onClick}
+      className={clsx(
+        'flex items-center gap-1 px-2 py-0.5 rounded transition-colors',
+        active ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-white'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface SuggestionItemProps {
+  id: string;
+  suggestion: QuerySuggestion;
+  isActive: boolean;
+  onPick: () => void;
+  onHover: () => void;
+  onTogglePin: () => void;
+  /** Omit for key phrases, which aren't in the history */
+  onForget?: () => void;
+}
+
+function SuggestionItem({ id, suggestion, isActive, onPick, onHover, onTogglePin, onForget }: SuggestionItemProps) {
+  const isPinned = suggestion.source === 'pinned';
+  const Icon = isPinned ? Pin : suggestion.source === 'history' ? History : Hash;
+
+  return (
+    <li
+      id={id}
+      role="option"
+      aria-selected={isActive}
+      onClick={onPick}
+      onMouseEnter={onHover}
+      className={clsx(
+        'group flex items-center gap-2 px-3 py-1.5 cursor-pointer',
+        isActive ? 'bg-slate-800 text-white' : 'text-slate-300'
+      )}
+    >
+      <Icon className={clsx('w-3.5 h-3.5 flex-shrink-0', isPinned ? 'text-insight-400' : 'text-slate-500')} />
+      <span className="flex-1 truncate">{suggestion.text}</span>
+      {suggestion.source === 'phrase' && (
+        <span className="text-[10px] text-slate-500">in transcript</span>
+      )}
+      <button
+        type="button"
+        title={isPinned ? 'Unpin query' : 'Pin query'}
+        onClick={(event) => {
+          event.stopPropagation();
+          onTogglePin();
+        }}
+        className={clsx(
+          'p-0.5 rounded text-slate-500 hover:text-white transition-opacity',
+          isActive || isPinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        )}
+      >
+        {isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+      </button>
+      {onForget && (
+        <button
+          type="button"
+          title="Remove from history"
+          onClick={(event) => {
+            event.stopPropagation();
+            onForget();
+          }}
+          className={clsx(
+            'p-0.5 rounded text-slate-500 hover:text-white transition-opacity',
+            isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+          )}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import clsx from 'clsx';
+import type { RetrievalMode, SearchFilters, TimeRange } from '../types';
+import { DEFAULT_SEARCH_FILTERS } from '../hooks/useInsight';
+import { formatClock, parseClock } from '../lib/time';
+
+interface SearchFilterMenuProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+}
+
+const RETRIEVAL_OPTIONS: { value: RetrievalMode; label: string; hint: string }[] = [
+  { value: 'hybrid', label: 'Hybrid', hint: 'Keywords and meaning' },
+  { value: 'keyword', label: 'Keyword', hint: 'Exact words only (BM25)' },
+  { value: 'vector', label: 'Semantic', hint: 'Meaning only (embeddings)' },
+];
+
+const TIME_PRESETS: { id: string; label: string; range?: TimeRange }[] = [
+  { id: 'anywhere', label: 'Anywhere' },
+  { id: 'first-10', label: 'First 10 min', range: { end: 600 } },
+  { id: 'last-10', label: 'Last 10 min', range: { start: -600 } },
+  { id: 'last-5', label: 'Last 5 min', range: { start: -300 } },
+];
+
+const LIMIT_OPTIONS = [10, 20, 50];
+
+function sameRange(a?: TimeRange, b?: TimeRange): boolean {
+  return a?.start === b?.start && a?.end === b?.end;
+}
+
+export function SearchFilterMenu({ filters, onChange, disabled = false }: SearchFilterMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const preset = TIME_PRESETS.find((candidate) => sameRange(candidate.range, filters.timeRange))?.id ?? 'custom';
+  // BM25 scores have no 0-1 scale, so keyword search ignores the threshold
+  const hasRelevance = filters.retrieval !== 'keyword';
+  const activeCount = [
+    filters.timeRange !== undefined,
+    hasRelevance && filters.minScore > 0,
+    filters.retrieval !== DEFAULT_SEARCH_FILTERS.retrieval,
+    filters.mergeAdjacent,
+    filters.limit !== DEFAULT_SEARCH_FILTERS.limit,
+  ].filter(Boolean).length;
+
+  // Custom range inputs start from the range in effect
+  useEffect(() => {
+    if (!isOpen) return;
+    const { start, end } = filters.timeRange ?? {};
+    setFrom(start !== undefined && start >= 0 ? formatClock(start) : '');
+    setTo(end !== undefined && end >= 0 ? formatClock(end) : '');
+  }, [isOpen, filters.timeRange]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const update = (changes: Partial<SearchFilters>) => onChange({ ...filters, ...changes });
+
+  const applyCustomRange = () => {
+    const start = parseClock(from);
+    const end = parseClock(to);
+    const range: TimeRange = {
+      ...(start !== null ? { start } : {}),
+      ...(end !== null ? { end } : {}),
+    };
+    const timeRange = range.start !== undefined || range.end !== undefined ? range : undefined;
+    if (!sameRange(timeRange, filters.timeRange)) update({ timeRange });
+  };
+
+  return (
+    <div ref={menuRef} className="relative flex-shrink-0">
+      <button
+        type="button"
+        title={disabled ? 'Filters apply to Search mode' : 'Search filters'}
+        disabled={disabled}
+        onClick={() => setIsOpen((open) => !open)}
+        className={clsx(
+          'relative p-1 rounded-md transition-colors',
+          activeCount > 0 ? 'text-insight-400' : 'text-slate-400',
+          disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-700 hover:text-white'
+        )}
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        {activeCount > 0 && (
+          <span className="absolute -top-1 -right-1 flex items-center justify-center w-3.5 h-3.5 rounded-full bg-insight-500 text-[9px] font-semibold text-white">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-72 p-3 rounded-lg bg-slate-900 border border-slate-700 shadow-xl flex flex-col gap-3 text-xs text-slate-400">
+          <div className="flex flex-col gap-1.5">
+            <span className="font-medium text-slate-300">Match by</span>
+            <div className="flex rounded-md bg-slate-800 p-0.5">
+              {RETRIEVAL_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  title={option.hint}
+                  onClick={() => update({ retrieval: option.value })}
+                  className={clsx(
+                    'flex-1 px-2 py-1 rounded transition-colors',
+                    filters.retrieval === option.value ? 'bg-insight-600 text-white' : 'hover:text-white'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <span className="font-medium text-slate-300">Time range</span>
+            <div className="flex flex-wrap gap-1">
+              {TIME_PRESETS.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => update({ timeRange: option.range })}
+                  className={clsx(
+                    'px-2 py-0.5 rounded-full border transition-colors',
+                    preset === option.id ? 'border-insight-500 text-insight-300' : 'border-slate-700 hover:text-white'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <ClockInput label="From" value={from} onChange={setFrom} onCommit={applyCustomRange} />
+              <span>–</span>
+              <ClockInput label="To" value={to} onChange={setTo} onCommit={applyCustomRange} />
+            </div>
+          </div>
+
+          <label
+            title={hasRelevance ? undefined : 'Keyword scores have no fixed scale; switch to Hybrid or Semantic to set a minimum'}
+            className={clsx('flex flex-col gap-1.5', !hasRelevance && 'opacity-50')}
+          >
+            <span className="flex justify-between font-medium text-slate-300">
+              Minimum relevance <span className="text-slate-400 font-normal">{hasRelevance ? `${(filters.minScore * 100).toFixed(0)}%` : 'n/a'}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={0.9}
+              step={0.1}
+              value={filters.minScore}
+              disabled={!hasRelevance}
+              onChange={(event) => update({ minScore: Number(event.target.value) })}
+              className="accent-insight-500 disabled:cursor-not-allowed"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="font-medium text-slate-300">Results</span>
+            <select
+              value={filters.limit}
+              onChange={(event) => update({ limit: Number(event.target.value) })}
+              className="px-2 py-0.5 rounded-md bg-slate-800 border border-slate-700 text-slate-200 outline-none focus:border-insight-500"
+            >
+              {LIMIT_OPTIONS.map((limit) => <option key={limit} value={limit}>{limit}</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.mergeAdjacent}
+              onChange={(event) => update({ mergeAdjacent: event.target.checked })}
+              className="accent-insight-500"
+            />
+            Merge back-to-back matches into one range
+          </label>
+
+          <button
+            type="button"
+            disabled={activeCount === 0}
+            onClick={() => onChange(DEFAULT_SEARCH_FILTERS)}
+            className="flex items-center justify-center gap-1.5 pt-2 border-t border-slate-800 hover:text-white disabled:opacity-50 disabled:hover:text-slate-400"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ClockInputProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  onCommit: () => void;
+}
+
+function ClockInput({ label, value, onChange, onCommit }: ClockInputProps) {
+  const isInvalid = value.trim() !== '' && parseClock(value) === null;
+
+  return (
+    <input
+      type="text"
+      inputMode="numeric"
+      aria-label={label}
+      placeholder={label === 'From' ? '0:00' : 'end'}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      onBlur={onCommit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          // Keep Enter from submitting the search form with the old range
+          event.preventDefault();
+          onCommit();
+        }
+      }}
+      className={clsx(
+        'w-full px-2 py-0.5 rounded-md bg-slate-800 border text-slate-200 outline-none',
+        isInvalid ? 'border-red-500/60' : 'border-slate-700 focus:border-insight-500'
+      )}
+    />
+  );
+}
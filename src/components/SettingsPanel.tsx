@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { Settings, X, AlertTriangle } from 'lucide-react';
+import clsx from 'clsx';
+import type { ModelDtype, ModelSettings } from '../types';
+import {
+  ASR_MODELS,
+  EMBEDDER_MODELS,
+  DTYPE_OPTIONS,
+  ASR_LANGUAGES,
+  AUTO_LANGUAGE,
+  DEFAULT_MODEL_SETTINGS,
+  getAsrModel,
+  getEmbedderModel,
+  getLanguageLabel,
+} from '../lib/models';
+
+interface SettingsPanelProps {
+  settings: ModelSettings | null;
+  onApply: (settings: ModelSettings) => void;
+  /** Models can't be swapped while a job is using them */
+  disabled?: boolean;
+}
+
+const DEVICE_OPTIONS: { value: ModelSettings['device']; label: string }[] = [
+  { value: 'auto', label: 'Auto (WebGPU when available)' },
+  { value: 'webgpu', label: 'WebGPU for both models' },
+  { value: 'wasm', label: 'CPU (WASM) only' },
+];
+
+export function SettingsPanel({
+  settings,
+  onApply,
+  disabled = false,
+}: SettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ModelSettings>(settings ?? DEFAULT_MODEL_SETTINGS);
+
+  // Start every edit from what the worker is actually running
+  useEffect(() => {
+    if (isOpen && settings) setDraft(settings);
+  }, [isOpen, settings]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  const update = <K extends keyof ModelSettings>(key: K, value: ModelSettings[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const isMultilingual = getAsrModel(draft.asrModel)?.multilingual ?? false;
+  const embedderChanged = settings !== null && draft.embedderModel !== settings.embedderModel;
+  const hasChanges = settings !== null && JSON.stringify(draft) !== JSON.stringify(settings);
+  const dimensions = getEmbedderModel(draft.embedderModel)?.dimensions;
+
+  const handleApply = () => {
+    onApply(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        title="Model settings"
+        disabled={!settings}
+        onClick={() => setIsOpen(true)}
+        className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+      >
+        <Settings className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4"
+          onPointerDown={(event) => { if (event.target === event.currentTarget) setIsOpen(false); }}
+        >
+          <div role="dialog" aria-label="Model settings" className="w-full max-w-md rounded-xl bg-slate-900 border border-slate-700 shadow-xl animate-fade-in">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+              <h2 className="text-base font-semibold text-white flex items-center gap-2">
+                <Settings className="w-4 h-4 text-insight-400" /> Model Settings
+              </h2>
+              <button type="button" title="Close" onClick={() => setIsOpen(false)} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-4 p-4">
+              <fieldset className="flex flex-col gap-2">
+                <legend className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">Speech recognition</legend>
+                <SelectField label="Model" value={draft.asrModel} onChange={(value) => update('asrModel', value)}
+                  options={ASR_MODELS.map((model) => ({ value: model.id, label: model.label }))} />
+                <SelectField label="Precision" value={draft.asrDtype} onChange={(value) => update('asrDtype', value as ModelDtype)}
+                  options={DTYPE_OPTIONS} />
+                <SelectField label="Language" value={draft.language} onChange={(value) => update('language', value)}
+                  disabled={!isMultilingual}
+                  options={[
+                    { value: AUTO_LANGUAGE, label: 'Auto-detect' },
+                    ...ASR_LANGUAGES.map((language) => ({ value: language, label: getLanguageLabel(language) })),
+                  ]} />
+                <CheckboxField label="Detect language per 30s window (mixed-language audio)" checked={draft.detectPerWindow}
+                  disabled={!isMultilingual || draft.language !== AUTO_LANGUAGE} onChange={(checked) => update('detectPerWindow', checked)} />
+                <CheckboxField label="Also index an English translation of non-English audio" checked={draft.translate}
+                  disabled={!isMultilingual} onChange={(checked) => update('translate', checked)} />
+              </fieldset>
+
+              <fieldset className="flex flex-col gap-2">
+                <legend className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">Search embeddings</legend>
+                <SelectField label="Model" value={draft.embedderModel} onChange={(value) => update('embedderModel', value)}
+                  options={EMBEDDER_MODELS.map((model) => ({ value: model.id, label: `${model.label} · ${model.dimensions}d` }))} />
+                <SelectField label="Precision" value={draft.embedderDtype} onChange={(value) => update('embedderDtype', value as ModelDtype)}
+                  options={DTYPE_OPTIONS} />
+                <CheckboxField label="Rerank results with a cross-encoder (slower, more precise)" checked={draft.reranker}
+                  onChange={(checked) => update('reranker', checked)} />
+                <CheckboxField label="Embed on several workers when running on WASM (more memory)" checked={draft.parallelEmbedding}
+                  disabled={draft.device === 'webgpu'} onChange={(checked) => update('parallelEmbedding', checked)} />
+              </fieldset>
+
+              <SelectField label="Device" value={draft.device} onChange={(value) => update('device', value as ModelSettings['device'])}
+                options={DEVICE_OPTIONS} />
+
+              {embedderChanged && (
+                <p className="flex items-start gap-2 text-xs text-amber-400">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                  The library will be re-embedded with {dimensions}-dimensional vectors. Transcripts are kept, nothing is re-transcribed.
+                </p>
+              )}
+              {disabled && (
+                <p className="text-xs text-slate-500">Models can be changed once the current transcription finishes.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-800">
+              <button type="button" onClick={() => setIsOpen(false)} className="px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={disabled || !hasChanges}
+                onClick={handleApply}
+                className={clsx(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                  disabled || !hasChanges
+                    ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
+                    : 'bg-insight-600 text-white hover:bg-insight-500'
+                )}
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+interface SelectFieldProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+function SelectField({ label, value, options, onChange, disabled = false }: SelectFieldProps) {
+  return (
+    <label className={clsx('flex items-center justify-between gap-3 text-sm', disabled ? 'text-slate-600' : 'text-slate-300')}>
+      {label}
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.value)}
+        className="w-60 px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 text-sm outline-none focus:border-insight-500 disabled:opacity-50"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface CheckboxFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+}
+
+function CheckboxField({ label, checked, onChange, disabled = false }: CheckboxFieldProps) {
+  return (
+    <label className={clsx('flex items-center gap-2 text-xs', disabled ? 'text-slate-600 cursor-not-allowed' : 'text-slate-400 cursor-pointer')}>
+      <input
+        type="checkbox"
+        checked={checked && !disabled}
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.checked)}
+        className="accent-insight-500"
+      />
+      {label}
+    </label>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Pencil, Users } from 'lucide-react';
+import clsx from 'clsx';
+import type { Episode } from '../types';
+import { getSpeakerLabel, getSpeakerColor } from '../lib/speakers';
+
+interface SpeakerListProps {
+  /** Speaker IDs in order of first appearance */
+  speakers: string[];
+  speakerNames?: Episode['speakerNames'];
+  /** Speakers search is restricted to; empty means everyone */
+  filter: string[];
+  onFilterChange: (speakers: string[]) => void;
+  /** Omit to make the list read-only (e.g. while the episode is still a draft) */
+  onRename?: (speaker: string, name: string) => void;
+}
+
+export function SpeakerList({
+  speakers,
+  speakerNames,
+  filter,
+  onFilterChange,
+  onRename,
+}: SpeakerListProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (speakers.length === 0) return null;
+
+  const toggle = (speaker: string) => {
+    onFilterChange(filter.includes(speaker)
+      ? filter.filter((candidate) => candidate !== speaker)
+      : [...filter, speaker]);
+  };
+
+  const startEditing = (speaker: string) => {
+    setEditing(speaker);
+    setDraftName(getSpeakerLabel(speakerNames, speaker));
+  };
+
+  const commit = () => {
+    if (editing && onRename) onRename(editing, draftName);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-3">
+      <Users className="w-3.5 h-3.5 text-slate-500" />
+      {speakers.map((speaker, index) => {
+        const color = getSpeakerColor(index);
+        const isSelected = filter.includes(speaker);
+
+        if (editing === speaker) {
+          return (
+            <input
+              key={speaker}
+              autoFocus
+              value={draftName}
+              aria-label="Speaker name"
+              onChange={(event) => setDraftName(event.target.value)}
+              onBlur={commit}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') commit();
+                if (event.key === 'Escape') setEditing(null);
+              }}
+              className={clsx('w-28 px-2 py-0.5 rounded-full text-xs bg-slate-800 text-white border outline-none', color.border)}
+            />
+          );
+        }
+
+        return (
+          <span
+            key={speaker}
+            className={clsx(
+              'group flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs border transition-colors',
+              color.border,
+              isSelected ? 'bg-slate-700 text-white' : 'bg-slate-800/50 text-slate-300'
+            )}
+          >
+            <button
+              type="button"
+              title={isSelected ? 'Stop filtering by this speaker' : 'Only search this speaker'}
+              onClick={() => toggle(speaker)}
+              className="flex items-center gap-1.5"
+            >
+              <span className={clsx('w-2 h-2 rounded-full', color.dot)} />
+              {getSpeakerLabel(speakerNames, speaker)}
+            </button>
+            {onRename && (
+              <button
+                type="button"
+                title="Rename speaker"
+                onClick={() => startEditing(speaker)}
+                className="p-0.5 rounded-full text-slate-500 hover:text-white opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        );
+      })}
+      {filter.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onFilterChange([])}
+          className="text-[10px] sm:text-xs text-slate-500 hover:text-white transition-colors"
+        >
+          Clear filter
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useRef, useEffect, useCallback, useMemo } from 'react';
-import { Clock, Sparkles } from 'lucide-react';
+import { Clock, Sparkles, Languages, ScanSearch } from 'lucide-react';
 import clsx from 'clsx';
-import type { TranscriptSegment, SearchResult } from '../types';
+import type { Episode, TranscriptSegment, TranscriptWord, SearchResult } from '../types';
+import { getSpeakers, getSpeakerLabel, getSpeakerColor } from '../lib/speakers';
+import { getQueryTerms, matchesTerm, findWordAt } from '../lib/words';
+import { getLanguageLabel } from '../lib/models';
 
 interface TranscriptViewProps {
   segments: TranscriptSegment[];
@@ -9,6 +12,13 @@ interface TranscriptViewProps {
   searchResults: SearchResult[];
   onSegmentClick: (segment: TranscriptSegment) => void;
   searchQuery: string;
+  speakerNames?: Episode['speakerNames'];
+  /** Seek to a single word; segments without word timings only support segment clicks */
+  onWordClick?: (word: TranscriptWord) => void;
+  /** Search for moments like this segment; omit while segments aren't indexed yet */
+  onFindSimilar?: (segment: TranscriptSegment) => void;
+  /** Segment the current results are similar to */
+  similarSegmentId?: string;
 }
 
 export function TranscriptView({
@@ -17,6 +27,10 @@ export function TranscriptView({
   searchResults,
   onSegmentClick,
   searchQuery,
+  speakerNames,
+  onWordClick,
+  onFindSimilar,
+  similarSegmentId,
 }: TranscriptViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const activeSegmentRef = useRef<HTMLDivElement>(null);
@@ -27,11 +41,21 @@ export function TranscriptView({
   const searchResultMap = useMemo(() => {
     const map = new Map<string, number>();
     for (const result of searchResults) {
-      map.set(result.segment.id, result.score);
+      // A merged result highlights every segment in its range
+      for (const segmentId of result.segmentIds ?? [result.segment.id]) {
+        map.set(segmentId, result.score);
+      }
     }
     return map;
   }, [searchResults]);
   
+  /**
+   * Speaker colors follow the order speakers first appear in.
+   */
+  const speakerIndex = useMemo(() => {
+    return new Map(getSpeakers(segments).map((speaker, index) => [speaker, index]));
+  }, [segments]);
+  
   /**
    * Find the currently playing segment.
    */
@@ -41,6 +65,16 @@ export function TranscriptView({
     );
   }, [segments, currentTime]);
   
+  /**
+   * Word being spoken inside the current segment, for karaoke highlighting.
+   */
+  const currentWordIndex = useMemo(() => {
+    const words = segments[currentSegmentIndex]?.words;
+    return words ? findWordAt(words, currentTime) : -1;
+  }, [segments, currentSegmentIndex, currentTime]);
+  
+  const queryTerms = useMemo(() => getQueryTerms(searchQuery), [searchQuery]);
+  
   /**
    * Auto-scroll to current segment.
    */
@@ -116,6 +150,11 @@ export function TranscriptView({
         const isActive = index === currentSegmentIndex;
         const searchScore = searchResultMap.get(segment.id);
         const hasSearchMatch = searchScore !== undefined;
+        // Label only where the speaker changes, like turns in a conversation
+        const showSpeaker = segment.speaker !== undefined && segment.speaker !== segments[index - 1]?.speaker;
+        const speakerColor = segment.speaker ? getSpeakerColor(speakerIndex.get(segment.speaker) ?? 0) : null;
+        // Per-window detection: mark where the spoken language switches
+        const showLanguage = segment.language !== undefined && segment.language !== segments[index - 1]?.language;
         
         return (
           <div
@@ -130,8 +169,16 @@ export function TranscriptView({
               !isActive && hasSearchMatch && getRelevanceStyle(searchScore),
               // Default state
               !isActive && !hasSearchMatch && 'border-l-transparent hover:bg-slate-800/50',
+              segment.id === similarSegmentId && 'ring-1 ring-insight-500/60',
             )}
           >
+            {showSpeaker && segment.speaker && (
+              <div className={clsx('flex items-center gap-1.5 text-xs font-semibold mb-1', speakerColor?.text)}>
+                <span className={clsx('w-2 h-2 rounded-full', speakerColor?.dot)} />
+                {getSpeakerLabel(speakerNames, segment.speaker)}
+              </div>
+            )}
+            
             {/* Timestamp badge */}
             <div className={clsx(
               'flex items-center gap-1.5 text-xs mb-1.5',
@@ -142,6 +189,13 @@ export function TranscriptView({
               <span className="text-slate-600">→</span>
               <span>{formatTime(segment.end)}</span>
               
+              {showLanguage && segment.language && (
+                <span className="ml-2 flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] bg-slate-800 text-slate-400">
+                  <Languages className="w-2.5 h-2.5" />
+                  {getLanguageLabel(segment.language)}
+                </span>
+              )}
+              
               {/* Relevance score badge */}
               {hasSearchMatch && (
                 <span className={clsx(
@@ -154,18 +208,67 @@ export function TranscriptView({
                   {(searchScore * 100).toFixed(0)}%
                 </span>
               )}
+              
+              {onFindSimilar && (
+                <button
+                  type="button"
+                  title="Find similar moments"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onFindSimilar(segment);
+                  }}
+                  className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-slate-400 hover:text-white hover:bg-slate-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                >
+                  <ScanSearch className="w-3 h-3" />
+                  Similar
+                </button>
+              )}
             </div>
             
             {/* Transcript text */}
-            <p 
-              className={clsx(
+            {segment.words && segment.words.length > 0 ? (
+              <p className={clsx(
                 'text-sm leading-relaxed',
-                isActive ? 'text-white' : 'text-slate-300'
-              )}
-              dangerouslySetInnerHTML={{ 
-                __html: highlightText(segment.text, hasSearchMatch) 
-              }}
-            />
+                isActive ? 'text-slate-400' : 'text-slate-300'
+              )}>
+                {segment.words.map((word, wordIndex) => (
+                  <span key={wordIndex}>
+                    <span
+                      onClick={onWordClick ? (event) => {
+                        event.stopPropagation();
+                        onWordClick(word);
+                      } : undefined}
+                      className={clsx(
+                        'rounded transition-colors duration-100',
+                        isActive && wordIndex <= currentWordIndex && 'text-white',
+                        isActive && wordIndex === currentWordIndex && 'bg-insight-500/40',
+                        hasSearchMatch && matchesTerm(word, queryTerms) && 'bg-insight-500/30 text-white px-0.5',
+                        onWordClick && 'hover:underline'
+                      )}
+                    >
+                      {word.text}
+                    </span>
+                    {' '}
+                  </span>
+                ))}
+              </p>
+            ) : (
+              <p 
+                className={clsx(
+                  'text-sm leading-relaxed',
+                  isActive ? 'text-white' : 'text-slate-300'
+                )}
+                dangerouslySetInnerHTML={{ 
+                  __html: highlightText(segment.text, hasSearchMatch) 
+                }}
+              />
+            )}
+            
+            {segment.translation && (
+              <p className="mt-1 text-xs leading-relaxed italic text-slate-500">
+                {segment.translation}
+              </p>
+            )}
             
             {/* Hover play indicator */}
             <div className={clsx(
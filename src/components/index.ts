@@ -3,3 +3,9 @@ export { DropZone } from './DropZone';
 export { SearchBar } from './SearchBar';
 export { TranscriptView } from './TranscriptView';
 export { AudioPlayer } from './AudioPlayer';
+export { EpisodeList } from './EpisodeList';
+export { ExportMenu } from './ExportMenu';
+export { SpeakerList } from './SpeakerList';
+export { SettingsPanel } from './SettingsPanel';
+export { AnswerCard } from './AnswerCard';
+export { ChapterList } from './ChapterList';
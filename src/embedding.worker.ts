@@ -0,0 +1,40 @@
+/**
+ * InsightCast Embedding Pool Worker
+ *
+ * One member of the WASM embedding pool started by the main worker. Holds
+ * its own copy of the embedder and embeds the batches it is sent.
+ */
+
+import { pipeline, env, FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { EmbeddingWorkerInputMessage, EmbeddingWorkerOutputMessage } from './types';
+import { embedTexts } from './lib/embedding';
+
+// Parallelism comes from the pool; threads inside each member would just compete for the same cores
+if (env.backends.onnx.wasm) env.backends.onnx.wasm.numThreads = 1;
+
+let embedder: FeatureExtractionPipeline | null = null;
+
+function postMessage(message: EmbeddingWorkerOutputMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerInputMessage>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case 'load':
+        await embedder?.dispose();
+        embedder = await pipeline<'feature-extraction'>('feature-extraction', message.model, {
+          device: 'wasm', dtype: message.dtype,
+        });
+        postMessage({ type: 'loaded', id: message.id });
+        break;
+      case 'embed':
+        if (!embedder) throw new Error('Embedder not loaded');
+        postMessage({ type: 'embeddings', id: message.id, vectors: await embedTexts(embedder, message.texts) });
+        break;
+    }
+  } catch (error) {
+    postMessage({ type: 'error', id: message.id, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -1,3 +1,3 @@
-export { useInsight, type UseInsightReturn } from './useInsight';
+export { useInsight, type UseInsightReturn, type SearchScope } from './useInsight';
 export { InsightProvider, useInsightContext } from './InsightContext';
 export { useAudioPlayer, type UseAudioPlayerReturn } from './useAudioPlayer';
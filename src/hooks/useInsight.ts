@@ -1,53 +1,231 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type {
+  Episode,
   TranscriptSegment,
   SearchResult,
   WorkerInputMessage,
   WorkerOutputMessage,
+  TranscriptionResultMessage,
+  JobCancelledMessage,
   ProgressInfo,
+  RecoveryInfo,
   AudioFileInfo,
+  ResumableJob,
+  ModelInfo,
+  ModelSettings,
+  QAAnswer,
+  SearchFilters,
+  SearchHistoryEntry,
 } from '../types';
+import {
+  hashAudioFile,
+  saveAudioBlob,
+  getAudioBlob,
+  deleteAudioBlob,
+  deleteCheckpoint,
+  saveSpeakerNames,
+  saveSearchHistory,
+  getSearchHistory,
+  setActiveEpisodeId as persistActiveEpisodeId,
+  getActiveEpisodeId as readActiveEpisodeId,
+} from '../lib/storage';
+import { decodeAudioFile, TARGET_SAMPLE_RATE } from '../lib/audio';
+import { parseTranscript } from '../lib/import';
+import { startMicRecorder, type MicRecorder } from '../lib/recorder';
+import { createEngine, type Engine } from '../lib/engine';
+import {
+  createRpcClient,
+  SupersededError,
+  type RpcClient,
+  type RpcRequest,
+  type RequestOptions,
+  type WorkerResponses,
+} from '../lib/rpc';
+import { findAnswerSpan } from '../lib/words';
+import { parseQuery, resolveSpeakers, toConstraints } from '../lib/query';
+import { extractKeyPhrases, recordQuery, removeQuery, togglePinnedQuery as togglePinnedEntry } from '../lib/suggestions';
+
+export type SearchScope = 'active' | 'all';
+/** `ask` answers the query as a question instead of listing matches */
+export type SearchMode = 'search' | 'ask';
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  limit: 20,
+  minScore: 0,
+  retrieval: 'hybrid',
+  mergeAdjacent: false,
+};
+
+/** Segment a "find similar" search started from */
+export interface SimilarSource {
+  episodeId: string;
+  segment: TranscriptSegment;
+}
+
+/** Everything besides the query text that decides what a search returns */
+interface SearchRequest {
+  scope: SearchScope;
+  speakers: string[];
+  mode: SearchMode;
+  filters: SearchFilters;
+}
 
 
 export interface UseInsightReturn {
   isModelReady: boolean;
   isTranscribing: boolean;
+  isRecording: boolean;
   isSearching: boolean;
   device: 'webgpu' | 'wasm' | null;
+  /** Models reported by the worker once loaded */
+  models: ModelInfo | null;
+  /** Model configuration the worker is running with */
+  settings: ModelSettings | null;
   progress: ProgressInfo | null;
   audioFile: AudioFileInfo | null;
+  episodes: Episode[];
+  /** Episode still being transcribed, filled in as windows complete */
+  draftEpisode: Episode | null;
+  activeEpisodeId: string | null;
   segments: TranscriptSegment[];
   searchResults: SearchResult[];
   searchQuery: string;
+  searchScope: SearchScope;
+  searchMode: SearchMode;
+  searchFilters: SearchFilters;
+  /** Notes on query operators that couldn't be applied */
+  queryHints: string[];
+  /** Queries run against the active episode, most recent first */
+  searchHistory: SearchHistoryEntry[];
+  /** Recurring phrases of the active episode, offered as query suggestions */
+  keyPhrases: string[];
+  /** Segment the current results are similar to, when they come from "find similar" */
+  similarTo: SimilarSource | null;
+  /** Extracted answer in Ask mode, null when there is none (or in Search mode) */
+  answer: QAAnswer | null;
+  /** Speaker IDs of the active episode that search is restricted to (empty: everyone) */
+  speakerFilter: string[];
+  resumableJobs: ResumableJob[];
+  /** Episode whose chapters are being generated */
+  chapteringEpisodeId: string | null;
+  /** Worker restart after a crash or hang, until shortly after it recovers */
+  recovery: RecoveryInfo | null;
   error: string | null;
   
-  loadAudio: (file: File) => Promise<void>;
-  search: (query: string) => Promise<void>;
+  /**
+   * Transcribe an audio file, or index `transcript` (SRT/VTT/JSON) for it instead of running Whisper.
+   * Resolves with the episode once it is in the library (null if cancelled) and rejects if the job fails.
+   */
+  loadAudio: (file: File, transcript?: File) => Promise<Episode | null>;
+  cancelTranscription: () => void;
+  /** Settles like `loadAudio` */
+  resumeJob: (job: ResumableJob) => Promise<Episode | null>;
+  discardJob: (job: ResumableJob) => Promise<void>;
+  startRecording: () => Promise<void>;
+  /** Settles like `loadAudio`, with the recorded episode */
+  stopRecording: () => Promise<Episode | null>;
+  selectEpisode: (episodeId: string) => Promise<void>;
+  removeEpisode: (episodeId: string) => void;
+  /** Split an episode into titled, summarized chapters (replaces existing ones) */
+  generateChapters: (episodeId: string) => void;
+  /** Resolves with the results shown (answer sources in Ask mode) and rejects if the search fails */
+  search: (query: string) => Promise<SearchResult[]>;
+  /** List moments similar to a segment, using its embedding in place of a text query */
+  findSimilar: (episodeId: string, segment: TranscriptSegment) => Promise<SearchResult[]>;
+  setSearchScope: (scope: SearchScope) => void;
+  setSearchMode: (mode: SearchMode) => void;
+  /** Change time range, score threshold, retrieval mode, merging or result count */
+  setSearchFilters: (filters: SearchFilters) => void;
+  setSpeakerFilter: (speakers: string[]) => void;
+  /** Add a query to the active episode's search history */
+  rememberQuery: (query: string) => void;
+  /** Save a query as pinned, or unpin it */
+  togglePinnedQuery: (query: string) => void;
+  forgetQuery: (query: string) => void;
+  renameSpeaker: (episodeId: string, speaker: string, name: string) => void;
   clearSearch: () => void;
-  clearAll: () => void;
+  /** Rejects if the worker could not clear the library */
+  clearAll: () => Promise<void>;
+  /** Switch models; changing the embedder re-embeds the library from stored transcripts */
+  updateSettings: (settings: ModelSettings) => void;
   setSearchQuery: (query: string) => void;
 }
 
 
+// How long the "recovered" notice stays up
+const RECOVERY_NOTICE_MS = 6000;
+
+
 export function useInsight(): UseInsightReturn {
-  const workerRef = useRef<Worker | null>(null);
+  const workerRef = useRef<Engine | null>(null);
+  const rpcRef = useRef<RpcClient | null>(null);
   
   const audioUrlRef = useRef<string | null>(null);
+  // In-memory audio cache so playback works even when IndexedDB is unavailable
+  const audioBlobsRef = useRef(new Map<string, Blob>());
+  const activationRef = useRef(0);
+  // The message handler outlives renders, so it reads the active episode here
+  const activeEpisodeIdRef = useRef<string | null>(null);
+  const currentJobRef = useRef<string | null>(null);
+  // Job whose audio is still being decoded, so the worker doesn't know it yet
+  const decodingJobRef = useRef<string | null>(null);
+  const draftActivatedRef = useRef(false);
+  const recorderRef = useRef<MicRecorder | null>(null);
+  const recordingRef = useRef<{ jobId: string; episodeId: string; fileName: string; offset: number } | null>(null);
   
   const [isModelReady, setIsModelReady] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [device, setDevice] = useState<'webgpu' | 'wasm' | null>(null);
+  const [models, setModels] = useState<ModelInfo | null>(null);
+  const [settings, setSettings] = useState<ModelSettings | null>(null);
   const [progress, setProgress] = useState<ProgressInfo | null>(null);
   const [audioFile, setAudioFile] = useState<AudioFileInfo | null>(null);
-  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [episodes, setEpisodes] = useState<Episode[]>([]);
+  const [draftEpisode, setDraftEpisode] = useState<Episode | null>(null);
+  const [activeEpisodeId, setActiveEpisodeId] = useState<string | null>(null);
+  useEffect(() => {
+    activeEpisodeIdRef.current = activeEpisodeId;
+  }, [activeEpisodeId]);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchScope, setSearchScope] = useState<SearchScope>('all');
+  const [searchMode, setSearchMode] = useState<SearchMode>('search');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [queryHints, setQueryHints] = useState<string[]>([]);
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([]);
+  const [workerAnswer, setWorkerAnswer] = useState<QAAnswer | null>(null);
+  const [similarTo, setSimilarTo] = useState<SimilarSource | null>(null);
+  const [speakerFilter, setSpeakerFilter] = useState<string[]>([]);
+  const [resumableJobs, setResumableJobs] = useState<ResumableJob[]>([]);
+  const [chapteringEpisodeId, setChapteringEpisodeId] = useState<string | null>(null);
+  const [recovery, setRecovery] = useState<RecoveryInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   
+  const segments = useMemo(() => {
+    if (draftEpisode && draftEpisode.id === activeEpisodeId) return draftEpisode.segments;
+    return episodes.find((episode) => episode.id === activeEpisodeId)?.segments ?? [];
+  }, [episodes, draftEpisode, activeEpisodeId]);
+  
+  const keyPhrases = useMemo(() => extractKeyPhrases(segments), [segments]);
+  
+  // The worker estimates the answer's timing; word timings pin it down
+  const answer = useMemo(() => {
+    if (!workerAnswer) return null;
+    const episode = draftEpisode?.id === workerAnswer.episodeId
+      ? draftEpisode
+      : episodes.find((candidate) => candidate.id === workerAnswer.episodeId);
+    const segment = episode?.segments.find((candidate) => candidate.id === workerAnswer.segment.id);
+    const span = segment ? findAnswerSpan(segment, workerAnswer.text) : undefined;
+    return span ? { ...workerAnswer, ...span } : workerAnswer;
+  }, [workerAnswer, episodes, draftEpisode]);
+  
   useEffect(() => {
     if (!searchQuery.trim()) {
       setSearchResults([]);
+      setWorkerAnswer(null);
+      setQueryHints([]);
     }
   }, [searchQuery]);
   
@@ -61,57 +239,178 @@ export function useInsight(): UseInsightReturn {
     }
   }, []);
 
-  const handleWorkerMessage = useCallback((event: MessageEvent<WorkerOutputMessage>) => {
-    const message = event.data;
-    
+  /**
+   * Send a request and wait for the worker's reply to it. Rejects with the
+   * worker's error for this request, or a SupersededError once a newer
+   * request with the same `supersedes` key replaces it.
+   */
+  const requestWorker = useCallback(<M extends RpcRequest>(message: M, options?: RequestOptions): Promise<WorkerResponses[M['type']]> => {
+    if (!rpcRef.current) return Promise.reject(new Error('AI Worker not initialized. Please refresh the page.'));
+    return rpcRef.current.request(message, options);
+  }, []);
+
+  const releaseAudioUrl = useCallback(() => {
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Make an episode the one shown in the player and transcript.
+   */
+  const activateEpisode = useCallback(async (episode: Episode) => {
+    const activation = ++activationRef.current;
+    setActiveEpisodeId(episode.id);
+    persistActiveEpisodeId(episode.id).catch((storageError) => {
+      console.warn('Failed to persist active episode:', storageError);
+    });
+
+    let blob = audioBlobsRef.current.get(episode.id);
+    if (!blob) {
+      try {
+        blob = await getAudioBlob(episode.id);
+      } catch (storageError) {
+        console.warn('Failed to read persisted audio:', storageError);
+      }
+      if (blob) audioBlobsRef.current.set(episode.id, blob);
+    }
+
+    // A newer selection happened while we were reading storage
+    if (activation !== activationRef.current) return;
+
+    releaseAudioUrl();
+    if (!blob) {
+      setAudioFile(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    audioUrlRef.current = url;
+    setAudioFile({
+      name: episode.fileName,
+      size: blob.size,
+      duration: episode.duration,
+      url,
+    });
+  }, [releaseAudioUrl]);
+
+  /**
+   * Load the stored library, on startup and again after the index worker
+   * restarts. A restart must not pull the player away from a running job or
+   * from an episode that is still in the library, so those keep the screen.
+   */
+  const restoreLibrary = useCallback(async (restored: Episode[]) => {
+    const restoredIds = new Set(restored.map((episode) => episode.id));
+    setEpisodes((prev) => [...restored, ...prev.filter((episode) => !restoredIds.has(episode.id))]);
+    console.log(`Restored ${restored.length} episodes from storage`);
+
+    const shownId = activeEpisodeIdRef.current;
+    if (currentJobRef.current || (shownId && restoredIds.has(shownId))) return;
+
+    let activeId: string | undefined;
+    try {
+      activeId = await readActiveEpisodeId();
+    } catch (storageError) {
+      console.warn('Failed to read active episode:', storageError);
+    }
+
+    const active = restored.find((episode) => episode.id === activeId) ?? restored.at(-1);
+    if (active) await activateEpisode(active);
+  }, [activateEpisode]);
+
+  const handleWorkerMessage = useCallback((message: WorkerOutputMessage) => {
     switch (message.type) {
       case 'progress':
+        // Late updates from a job we already gave up on
+        if (message.jobId && message.jobId !== currentJobRef.current) break;
         setProgress({
           stage: formatStage(message.stage),
           progress: message.progress,
           message: message.message,
+          throughput: message.throughput,
+          eta: message.eta,
         });
         break;
         
       case 'ready':
         setIsModelReady(true);
         setDevice(message.device);
+        setModels(message.models);
+        setSettings(message.settings);
         setProgress(null);
         setError(null);
         console.log(`Models loaded on ${message.device}:`, message.models);
         break;
         
-      case 'transcription-result':
-        setIsTranscribing(false);
-        setSegments(message.segments);
-        setProgress(null);
-        console.log(`Transcription complete: ${message.segments.length} segments in ${(message.processingTime / 1000).toFixed(1)}s`);
+      case 'partial-segments': {
+        if (message.jobId !== currentJobRef.current) break;
+        const { episodeId, fileName, duration, segments: newSegments } = message;
+        setDraftEpisode((prev) => prev && prev.id === episodeId
+          ? { ...prev, duration, segments: [...prev.segments, ...newSegments] }
+          : { id: episodeId, fileName, duration, segments: newSegments, createdAt: Date.now() });
+        // Switch to the new file on its first window so it can be read and played right away
+        if (!draftActivatedRef.current) {
+          draftActivatedRef.current = true;
+          activateEpisode({ id: episodeId, fileName, duration, segments: [], createdAt: Date.now() });
+        }
+        break;
+      }
+        
+      case 'resumable-jobs':
+        // After a restart the running job's checkpoint is listed too, but its retry is already under way
+        setResumableJobs(message.jobs.filter((job) => job.jobId !== currentJobRef.current));
         break;
         
-      case 'search-results':
-        setIsSearching(false);
-        setSearchResults(message.results);
-        console.log(`Search complete: ${message.results.length} results in ${message.searchTime.toFixed(0)}ms`);
+      case 'chapters':
+        setEpisodes((prev) => prev.map((episode) => episode.id === message.episodeId ? { ...episode, chapters: message.chapters } : episode));
+        setChapteringEpisodeId(null);
+        // The progress bar may belong to a job that is still running
+        if (!currentJobRef.current) setProgress(null);
         break;
         
-      case 'cleared':
-        setSegments([]);
-        setSearchResults([]);
-        setSearchQuery('');
-        setAudioFile(null);
-        // Revoke old audio URL if exists
-        if (audioUrlRef.current) {
-          URL.revokeObjectURL(audioUrlRef.current);
-          audioUrlRef.current = null;
+      case 'restored':
+        restoreLibrary(message.episodes);
+        break;
+        
+      case 'episode-removed':
+        audioBlobsRef.current.delete(message.episodeId);
+        setEpisodes((prev) => prev.filter((episode) => episode.id !== message.episodeId));
+        setSearchResults((prev) => prev.filter((result) => result.episodeId !== message.episodeId));
+        setWorkerAnswer((prev) => prev?.episodeId === message.episodeId ? null : prev);
+        break;
+        
+      case 'recovery': {
+        const { worker, status, reason, retried } = message;
+        setRecovery({ worker, status, reason, retried });
+        if (worker === 'index' && status === 'restarting') {
+          setIsModelReady(false);
+          // A retried job replays its checkpoint, which rebuilds the draft from scratch
+          setDraftEpisode(null);
+          setProgress({ stage: 'Recovering', progress: 0, message: 'Restarting AI engine...' });
         }
+        console.warn(`Worker recovery (${worker}): ${status}`, reason);
+        break;
+      }
+        
+      case 'transcription-result':
+      case 'job-cancelled':
+      case 'search-results':
+      case 'answer':
+      case 'similar-results':
+      case 'cleared':
+        // Replies to requests; the RPC client settles (or drops) them before they get here
         break;
         
       case 'error':
+        // Errors of requests reach their callers; these are about work nothing awaits
         setError(message.message);
-        setProgress(null);
-        setIsTranscribing(false);
-        setIsSearching(false);
-        console.error(`Worker error (${message.operation}):`, message.message, message.stack);
+        if (message.operation === 'chapters') {
+          setChapteringEpisodeId(null);
+          if (!currentJobRef.current) setProgress(null);
+        } else if (message.operation === 'load' || message.operation === 'configure') {
+          setProgress(null);
+        }
         break;
         
       default:
@@ -119,22 +418,43 @@ export function useInsight(): UseInsightReturn {
         const _exhaustive: never = message;
         console.warn('Unknown worker message:', _exhaustive);
     }
-  }, []);
+  }, [activateEpisode, restoreLibrary]);
+  
+  // Fall back to the newest episode when the active one is removed (or its draft dropped)
+  useEffect(() => {
+    if (!activeEpisodeId || draftEpisode?.id === activeEpisodeId) return;
+    if (episodes.some((episode) => episode.id === activeEpisodeId)) return;
+    
+    const fallback = episodes.at(-1);
+    if (fallback) {
+      activateEpisode(fallback);
+    } else {
+      setActiveEpisodeId(null);
+      setAudioFile(null);
+      releaseAudioUrl();
+    }
+  }, [episodes, draftEpisode, activeEpisodeId, activateEpisode, releaseAudioUrl]);
+  
+  // A finished recovery only needs a moment on screen
+  useEffect(() => {
+    if (recovery?.status !== 'recovered') return;
+    const timer = setTimeout(() => setRecovery(null), RECOVERY_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [recovery]);
   
 
   useEffect(() => {
-    const worker = new Worker(
-      new URL('../worker.ts', import.meta.url),
-      { type: 'module' }
-    );
-    
-    worker.onmessage = handleWorkerMessage;
-    worker.onerror = (error) => {
-      console.error('Worker error:', error);
-      setError(`Worker error: ${error.message}`);
-    };
+    // One index/search worker plus one ASR worker, driven as a single engine
+    const worker = createEngine({
+      onMessage: (message) => {
+        if (!rpc.handle(message)) handleWorkerMessage(message);
+      },
+      onError: (message) => setError(`Worker error: ${message}`),
+    });
+    const rpc = createRpcClient((message) => worker.postMessage(message));
     
     workerRef.current = worker;
+    rpcRef.current = rpc;
     
     setProgress({
       stage: 'Initializing',
@@ -142,172 +462,755 @@ export function useInsight(): UseInsightReturn {
       message: 'Starting AI engine...',
     });
     
-    worker.postMessage({ type: 'load' } as WorkerInputMessage);
+    worker.postMessage({ type: 'load' });
     
     return () => {
       worker.terminate();
       workerRef.current = null;
-      
-      if (audioUrlRef.current) {
-        URL.revokeObjectURL(audioUrlRef.current);
-      }
+      rpcRef.current = null;
+      releaseAudioUrl();
     };
-  }, [handleWorkerMessage]);
+  }, [handleWorkerMessage, releaseAudioUrl]);
   
 
-  const decodeAudioFile = useCallback(async (file: File): Promise<{ samples: Float32Array; duration: number }> => {
-    const arrayBuffer = await file.arrayBuffer();
-    
-    const audioContext = new AudioContext();
-    let audioBuffer: AudioBuffer;
+  /**
+   * Apply the outcome of a transcription, import or recording job.
+   */
+  const settleJob = useCallback((reply: TranscriptionResultMessage | JobCancelledMessage): Episode | null => {
+    currentJobRef.current = null;
+    setIsTranscribing(false);
+    setDraftEpisode(null);
+    setProgress(null);
     
-    try {
-      audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    } finally {
-      await audioContext.close();
+    if (reply.type === 'job-cancelled') {
+      const { job } = reply;
+      if (job) {
+        setResumableJobs((prev) => [...prev.filter((candidate) => candidate.episodeId !== job.episodeId), job]);
+        console.log(`Transcription cancelled at ${job.progress.toFixed(0)}%`);
+      } else {
+        console.log(`Job ${reply.jobId} cancelled`);
+      }
+      return null;
     }
     
-    const duration = audioBuffer.duration;
-    const TARGET_SAMPLE_RATE = 16000;
+    const { episode } = reply;
+    setResumableJobs((prev) => prev.filter((job) => job.episodeId !== episode.id));
+    setEpisodes((prev) => [...prev.filter((existing) => existing.id !== episode.id), episode]);
+    activateEpisode(episode);
+    console.log(`Transcription complete: ${episode.segments.length} segments in ${(reply.processingTime / 1000).toFixed(1)}s`);
+    return episode;
+  }, [activateEpisode]);
+  
+
+  const failJob = useCallback((jobError: unknown) => {
+    currentJobRef.current = null;
+    setDraftEpisode(null);
+    setIsTranscribing(false);
+    setProgress(null);
+    setError(jobError instanceof Error ? jobError.message : 'Transcription failed');
+    console.error('Job failed:', jobError);
+  }, []);
+  
+
+  /**
+   * Run a job on the worker; progress and partial segments stream in
+   * through the message handler until the reply settles it. A failure is
+   * shown as the app error and still rejects.
+   */
+  const runJob = useCallback((message: RpcRequest<'transcribe' | 'import-transcript' | 'finish-recording'>): Promise<Episode | null> => {
+    return requestWorker(message).then(settleJob, (jobError: unknown) => {
+      failJob(jobError);
+      throw jobError;
+    });
+  }, [requestWorker, settleJob, failJob]);
+  
+
+  /**
+   * Decode audio into a transcription job. The worker resumes from a
+   * checkpoint by itself when one exists for this episode. Null when the
+   * job was cancelled while decoding.
+   */
+  const prepareTranscription = useCallback(async (audio: Blob, fileName: string, episodeId: string): Promise<RpcRequest<'transcribe'> | null> => {
+    setProgress({
+      stage: 'Processing',
+      progress: 0,
+      message: 'Decoding audio file...',
+    });
     
-    const targetLength = Math.ceil(duration * TARGET_SAMPLE_RATE);
+    const jobId = createId('job');
+    currentJobRef.current = jobId;
+    decodingJobRef.current = jobId;
+    draftActivatedRef.current = false;
     
-    const offlineContext = new OfflineAudioContext(
-      1, // mono output
-      targetLength,
-      TARGET_SAMPLE_RATE
-    );
+    const { samples, duration: audioDuration } = await decodeAudioFile(audio).finally(() => {
+      if (decodingJobRef.current === jobId) decodingJobRef.current = null;
+    });
+    // Cancelled while decoding
+    if (currentJobRef.current !== jobId) return null;
     
-    const source = offlineContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(offlineContext.destination);
-    source.start(0);
+    setProgress({
+      stage: 'Processing',
+      progress: 5,
+      message: 'Sending to AI worker...',
+    });
     
-    const resampledBuffer = await offlineContext.startRendering();
-    const samples = resampledBuffer.getChannelData(0);
+    return {
+      type: 'transcribe',
+      jobId,
+      audioSamples: samples,
+      duration: audioDuration,
+      fileName,
+      episodeId,
+    };
+  }, []);
+  
+
+  const prepareImport = useCallback(async (audio: Blob, fileName: string, episodeId: string, transcript: File): Promise<RpcRequest<'import-transcript'> | null> => {
+    setProgress({
+      stage: 'Processing',
+      progress: 0,
+      message: `Reading ${transcript.name}...`,
+    });
     
-    return { samples: new Float32Array(samples), duration };
+    const segments = parseTranscript(await transcript.text(), transcript.name);
+    
+    const jobId = createId('job');
+    currentJobRef.current = jobId;
+    decodingJobRef.current = jobId;
+    draftActivatedRef.current = false;
+    
+    // Decoding is only needed for the duration; the samples are never sent
+    const { duration: audioDuration } = await decodeAudioFile(audio).finally(() => {
+      if (decodingJobRef.current === jobId) decodingJobRef.current = null;
+    });
+    // Cancelled while decoding
+    if (currentJobRef.current !== jobId) return null;
+    
+    return {
+      type: 'import-transcript',
+      jobId,
+      episodeId,
+      fileName,
+      duration: audioDuration,
+      segments,
+    };
   }, []);
+  
 
+  /**
+   * Show `message` as the app error and reject with it.
+   */
+  const rejectWithError = useCallback((message: string): Promise<never> => {
+    setError(message);
+    return Promise.reject(new Error(message));
+  }, []);
+  
 
-  const loadAudio = useCallback(async (file: File): Promise<void> => {
+  const loadAudio = useCallback(async (file: File, transcript?: File): Promise<Episode | null> => {
     if (!isModelReady) {
-      setError('Please wait for models to load before uploading audio.');
+      return rejectWithError('Please wait for models to load before uploading audio.');
+    }
+    
+    setError(null);
+    setIsTranscribing(true);
+    
+    setProgress({
+      stage: 'Processing',
+      progress: 0,
+      message: 'Decoding audio file...',
+    });
+    
+    let job: RpcRequest<'transcribe' | 'import-transcript'> | null;
+    try {
+      const episodeId = await hashAudioFile(file);
+      
+      // Same audio already in the library: just switch to it
+      const existing = episodes.find((episode) => episode.id === episodeId);
+      if (existing) {
+        setIsTranscribing(false);
+        setProgress(null);
+        if (transcript) {
+          setError(`${existing.fileName} is already in the library, so ${transcript.name} was not imported. Remove the episode first to replace its transcript.`);
+        }
+        await activateEpisode(existing);
+        return existing;
+      }
+      
+      audioBlobsRef.current.set(episodeId, file);
+      // Keep the audio around so a reload can restore playback (and resume)
+      await saveAudioBlob(episodeId, file).catch((storageError) => {
+        console.warn('Failed to persist audio:', storageError);
+      });
+
+      job = transcript
+        ? await prepareImport(file, file.name, episodeId, transcript)
+        : await prepareTranscription(file, file.name, episodeId);
+    } catch (decodeError) {
+      currentJobRef.current = null;
+      setIsTranscribing(false);
+      setProgress(null);
+      const action = transcript ? 'import transcript' : 'decode audio';
+      return rejectWithError(`Failed to ${action}: ${decodeError instanceof Error ? decodeError.message : 'Unknown error'}`);
+    }
+    return job ? runJob(job) : null;
+  }, [isModelReady, episodes, activateEpisode, prepareTranscription, prepareImport, runJob, rejectWithError]);
+  
+
+  const cancelTranscription = useCallback(() => {
+    if (!currentJobRef.current) return;
+    
+    // Not sent yet: drop it here, and the decode finishing won't start it
+    if (decodingJobRef.current === currentJobRef.current) {
+      currentJobRef.current = null;
+      decodingJobRef.current = null;
+      setIsTranscribing(false);
+      setProgress(null);
       return;
     }
     
+    postToWorker({ type: 'cancel', jobId: currentJobRef.current });
+    setProgress((prev) => prev && { ...prev, message: 'Cancelling after the current window...' });
+  }, [postToWorker]);
+  
+
+  const resumeJob = useCallback(async (job: ResumableJob): Promise<Episode | null> => {
+    if (!isModelReady) {
+      return rejectWithError('Please wait for models to load before resuming.');
+    }
+    
+    let blob = audioBlobsRef.current.get(job.episodeId);
+    try {
+      blob ??= await getAudioBlob(job.episodeId);
+    } catch (storageError) {
+      console.warn('Failed to read persisted audio:', storageError);
+    }
+    if (!blob) {
+      return rejectWithError(`The audio for ${job.fileName} is no longer available. Drop the file again to resume.`);
+    }
+    
     setError(null);
     setIsTranscribing(true);
-    setSegments([]);
-    setSearchResults([]);
-    setSearchQuery('');
+    setResumableJobs((prev) => prev.filter((candidate) => candidate.episodeId !== job.episodeId));
     
-    if (audioUrlRef.current) {
-      URL.revokeObjectURL(audioUrlRef.current);
+    let transcription: RpcRequest<'transcribe'> | null;
+    try {
+      transcription = await prepareTranscription(blob, job.fileName, job.episodeId);
+    } catch (decodeError) {
+      currentJobRef.current = null;
+      setIsTranscribing(false);
+      setProgress(null);
+      return rejectWithError(`Failed to decode audio: ${decodeError instanceof Error ? decodeError.message : 'Unknown error'}`);
+    }
+    return transcription ? runJob(transcription) : null;
+  }, [isModelReady, prepareTranscription, runJob, rejectWithError]);
+  
+
+  const discardJob = useCallback(async (job: ResumableJob): Promise<void> => {
+    setResumableJobs((prev) => prev.filter((candidate) => candidate.episodeId !== job.episodeId));
+    audioBlobsRef.current.delete(job.episodeId);
+    try {
+      await Promise.all([deleteCheckpoint(job.episodeId), deleteAudioBlob(job.episodeId)]);
+    } catch (storageError) {
+      console.warn('Failed to discard job:', storageError);
+    }
+  }, []);
+  
+
+  const startRecording = useCallback(async (): Promise<void> => {
+    if (!isModelReady) {
+      setError('Please wait for models to load before recording.');
+      return;
     }
+    if (recorderRef.current) return;
     
-    const url = URL.createObjectURL(file);
-    audioUrlRef.current = url;
+    const recording = {
+      jobId: createId('job'),
+      episodeId: createId('rec'),
+      fileName: `Recording ${new Date().toLocaleString()}`,
+      offset: 0,
+    };
     
-    const audio = new Audio(url);
-    await new Promise<void>((resolve, reject) => {
-      audio.onloadedmetadata = () => resolve();
-      audio.onerror = () => reject(new Error('Failed to load audio file'));
-    });
+    setError(null);
+    currentJobRef.current = recording.jobId;
+    draftActivatedRef.current = false;
     
-    setAudioFile({
-      name: file.name,
-      size: file.size,
-      duration: audio.duration,
-      url,
-    });
+    try {
+      recorderRef.current = await startMicRecorder((samples) => {
+        postToWorker({
+          type: 'recording-chunk',
+          jobId: recording.jobId,
+          episodeId: recording.episodeId,
+          fileName: recording.fileName,
+          samples,
+          offset: recording.offset,
+        });
+        recording.offset += samples.length / TARGET_SAMPLE_RATE;
+      });
+      recordingRef.current = recording;
+      setIsRecording(true);
+    } catch (micError) {
+      currentJobRef.current = null;
+      setError(`Microphone unavailable: ${micError instanceof Error ? micError.message : 'Unknown error'}`);
+    }
+  }, [isModelReady, postToWorker]);
+  
+
+  const stopRecording = useCallback(async (): Promise<Episode | null> => {
+    const recorder = recorderRef.current;
+    const recording = recordingRef.current;
+    if (!recorder || !recording) return null;
     
+    recorderRef.current = null;
+    recordingRef.current = null;
+    setIsRecording(false);
+    setIsTranscribing(true);
     setProgress({
       stage: 'Processing',
-      progress: 0,
-      message: 'Decoding audio file...',
+      progress: 100,
+      message: 'Finishing live transcription...',
     });
     
     try {
-      const { samples, duration: audioDuration } = await decodeAudioFile(file);
-      
-      setProgress({
-        stage: 'Processing',
-        progress: 5,
-        message: 'Sending to AI worker...',
-      });
-      
-      postToWorker({
-        type: 'transcribe',
-        audioSamples: samples,
-        duration: audioDuration,
-        fileName: file.name,
+      // Resolves only after the last buffer went through the chunk callback
+      const blob = await recorder.stop();
+      audioBlobsRef.current.set(recording.episodeId, blob);
+      await saveAudioBlob(recording.episodeId, blob).catch((storageError) => {
+        console.warn('Failed to persist recording:', storageError);
       });
-    } catch (decodeError) {
+    } catch (recordError) {
       setIsTranscribing(false);
-      setError(`Failed to decode audio: ${decodeError instanceof Error ? decodeError.message : 'Unknown error'}`);
+      setProgress(null);
+      return rejectWithError(`Failed to save recording: ${recordError instanceof Error ? recordError.message : 'Unknown error'}`);
+    }
+    
+    return runJob({
+      type: 'finish-recording',
+      jobId: recording.jobId,
+      episodeId: recording.episodeId,
+      fileName: recording.fileName,
+      duration: recording.offset,
+    });
+  }, [runJob, rejectWithError]);
+  
+  // Release the microphone if the app goes away mid-recording
+  useEffect(() => () => {
+    recorderRef.current?.stop().catch(() => undefined);
+    recorderRef.current = null;
+  }, []);
+  
+
+  const selectEpisode = useCallback(async (episodeId: string): Promise<void> => {
+    const episode = episodes.find((candidate) => candidate.id === episodeId);
+    if (episode && episode.id !== activeEpisodeId) {
+      await activateEpisode(episode);
     }
-  }, [isModelReady, postToWorker, decodeAudioFile]);
+  }, [episodes, activeEpisodeId, activateEpisode]);
   
 
-  const search = useCallback(async (query: string): Promise<void> => {
+  const removeEpisode = useCallback((episodeId: string) => {
+    postToWorker({ type: 'remove-episode', episodeId });
+  }, [postToWorker]);
+  
+
+  const generateChapters = useCallback((episodeId: string) => {
+    // Drafts are still growing; chapters are split from the finished transcript
+    const episode = episodes.find((candidate) => candidate.id === episodeId);
+    if (!episode || chapteringEpisodeId) return;
+    
+    setError(null);
+    setChapteringEpisodeId(episodeId);
+    postToWorker({ type: 'generate-chapters', episodeId, segments: episode.segments });
+  }, [episodes, chapteringEpisodeId, postToWorker]);
+  
+
+  /**
+   * A failed search is reported under the search bar rather than as an app
+   * error; one replaced by a newer search just gives way. Either way the
+   * caller's promise rejects.
+   */
+  const failSearch = useCallback((searchError: unknown): never => {
+    if (searchError instanceof SupersededError) throw searchError;
+    setIsSearching(false);
+    setSearchResults([]);
+    setWorkerAnswer(null);
+    setQueryHints((prev) => [...prev, searchError instanceof Error ? searchError.message : 'Search failed']);
+    console.error('Search failed:', searchError);
+    throw searchError;
+  }, []);
+  
+
+  /**
+   * A speaker filter refers to the active episode's speakers, so it also
+   * narrows the search to that episode. In Search mode the query syntax
+   * (phrases, exclusions, OR, `speaker:`, `after:`) is parsed here; Ask
+   * mode sends the question as written. Resolves with the results shown
+   * and rejects with a failure already reported under the search bar.
+   */
+  const runSearch = useCallback((query: string, { scope, speakers, mode, filters }: SearchRequest): Promise<SearchResult[]> => {
+    setSimilarTo(null);
     if (!query.trim()) {
+      rpcRef.current?.discard('search');
+      setIsSearching(false);
       setSearchResults([]);
-      return;
+      setWorkerAnswer(null);
+      setQueryHints([]);
+      return Promise.resolve([]);
     }
     
-    if (segments.length === 0) {
-      setError('No transcription available. Please upload and transcribe audio first.');
-      return;
+    if (episodes.length === 0 && !draftEpisode) {
+      return rejectWithError('No transcription available. Please upload and transcribe audio first.');
     }
     
     setError(null);
-    setIsSearching(true);
     setSearchQuery(query);
     
-    postToWorker({
+    const episodeIds = (scope === 'active' || speakers.length > 0) && activeEpisodeId ? [activeEpisodeId] : undefined;
+    const speakerIds = speakers.length > 0 ? speakers : undefined;
+    
+    if (mode === 'ask') {
+      setQueryHints([]);
+      setIsSearching(true);
+      return requestWorker({ type: 'ask', question: query.trim(), limit: 5, episodeIds, speakers: speakerIds }, { supersedes: 'search' })
+        .then((reply) => {
+          setIsSearching(false);
+          setSearchResults(reply.results);
+          setWorkerAnswer(reply.answer);
+          // Clears the Q&A model's loading progress
+          setProgress(null);
+          console.log(`Answered in ${reply.searchTime.toFixed(0)}ms:`, reply.answer?.text ?? 'no answer');
+          return reply.results;
+        }, failSearch);
+    }
+    
+    const parsed = parseQuery(query);
+    if (!parsed.text) {
+      rpcRef.current?.discard('search');
+      setIsSearching(false);
+      setQueryHints([...parsed.hints, 'Add some words to search for alongside the operators']);
+      setSearchResults([]);
+      return Promise.resolve([]);
+    }
+    
+    const library = draftEpisode ? [...episodes, draftEpisode] : episodes;
+    const speakerRefs = parsed.speakers.length > 0 ? resolveSpeakers(parsed.speakers, library) : undefined;
+    setQueryHints(speakerRefs?.length === 0
+      ? [...parsed.hints, `No speaker matches "${parsed.speakers.join('", "')}"`]
+      : parsed.hints);
+    
+    setIsSearching(true);
+    return requestWorker({
       type: 'search',
-      query: query.trim(),
-      limit: 20,
+      query: parsed.text,
+      episodeIds,
+      speakers: speakerIds,
+      ...filters,
+      // Operators in the query take precedence over the filter menu
+      timeRange: parsed.timeRange ?? filters.timeRange,
+      constraints: toConstraints(parsed, speakerRefs),
+    }, { supersedes: 'search' })
+      .then((reply) => {
+        setIsSearching(false);
+        setSearchResults(reply.results);
+        setWorkerAnswer(null);
+        console.log(`Search complete: ${reply.results.length} results in ${reply.searchTime.toFixed(0)}ms`);
+        return reply.results;
+      }, failSearch);
+  }, [episodes, draftEpisode, activeEpisodeId, requestWorker, failSearch, rejectWithError]);
+  
+
+  const searchRequest = useMemo<SearchRequest>(
+    () => ({ scope: searchScope, speakers: speakerFilter, mode: searchMode, filters: searchFilters }),
+    [searchScope, speakerFilter, searchMode, searchFilters]
+  );
+  
+
+  const search = useCallback((query: string): Promise<SearchResult[]> => {
+    return runSearch(query, searchRequest);
+  }, [runSearch, searchRequest]);
+  
+  /**
+   * The 'active' scope means the source segment's own episode. Speaker
+   * filters and the retrieval mode don't apply: there is no text query
+   * and similar moments may come from anyone.
+   */
+  const runFindSimilar = useCallback((source: SimilarSource, { scope, filters }: SearchRequest): Promise<SearchResult[]> => {
+    setError(null);
+    setIsSearching(true);
+    return requestWorker({
+      type: 'find-similar',
+      episodeId: source.episodeId,
+      segmentId: source.segment.id,
+      limit: filters.limit,
+      episodeIds: scope === 'active' ? [source.episodeId] : undefined,
+      timeRange: filters.timeRange,
+      minScore: filters.minScore,
+      mergeAdjacent: filters.mergeAdjacent,
+    }, { supersedes: 'search' })
+      .then((reply) => {
+        setIsSearching(false);
+        setSearchResults(reply.results);
+        setWorkerAnswer(null);
+        console.log(`Found ${reply.results.length} similar moments in ${reply.searchTime.toFixed(0)}ms`);
+        return reply.results;
+      }, failSearch);
+  }, [requestWorker, failSearch]);
+  
+
+  const findSimilar = useCallback((episodeId: string, segment: TranscriptSegment): Promise<SearchResult[]> => {
+    const source = { episodeId, segment };
+    // The results replace any text search or answer on screen
+    setSimilarTo(source);
+    setSearchMode('search');
+    setSearchQuery('');
+    setQueryHints([]);
+    setWorkerAnswer(null);
+    return runFindSimilar(source, searchRequest);
+  }, [runFindSimilar, searchRequest]);
+  
+
+  /**
+   * Re-run the current query (or similarity search) after a setting
+   * changed. Nobody awaits it; a failure shows under the search bar.
+   */
+  const rerunSearch = useCallback((request: SearchRequest, withSimilar = true) => {
+    const rerun = withSimilar && similarTo
+      ? runFindSimilar(similarTo, request)
+      : searchQuery.trim() ? runSearch(searchQuery, request) : undefined;
+    rerun?.catch(() => undefined);
+  }, [runSearch, runFindSimilar, similarTo, searchQuery]);
+  
+
+  /**
+   * Change the search scope and re-run the current query (or similarity
+   * search) against it.
+   */
+  const changeSearchScope = useCallback((scope: SearchScope) => {
+    setSearchScope(scope);
+    rerunSearch({ ...searchRequest, scope });
+  }, [rerunSearch, searchRequest]);
+  
+
+  const changeSpeakerFilter = useCallback((speakers: string[]) => {
+    setSpeakerFilter(speakers);
+    rerunSearch({ ...searchRequest, speakers }, false);
+  }, [rerunSearch, searchRequest]);
+  
+
+  /**
+   * Switch between listing matches and answering the query as a question,
+   * re-running the current query in the new mode.
+   */
+  const changeSearchMode = useCallback((mode: SearchMode) => {
+    setSearchMode(mode);
+    setWorkerAnswer(null);
+    if (similarTo) {
+      // Similar moments aren't answers to anything
+      setSimilarTo(null);
+      setSearchResults([]);
+    }
+    rerunSearch({ ...searchRequest, mode }, false);
+  }, [rerunSearch, similarTo, searchRequest]);
+  
+
+  const changeSearchFilters = useCallback((filters: SearchFilters) => {
+    setSearchFilters(filters);
+    rerunSearch({ ...searchRequest, filters });
+  }, [rerunSearch, searchRequest]);
+  
+  // Speaker IDs only mean something within one episode
+  useEffect(() => {
+    setSpeakerFilter([]);
+  }, [activeEpisodeId]);
+  
+  // Search history is kept per transcript
+  useEffect(() => {
+    setSearchHistory([]);
+    if (!activeEpisodeId) return;
+    
+    let cancelled = false;
+    getSearchHistory(activeEpisodeId)
+      .then((entries) => {
+        if (!cancelled) setSearchHistory(entries);
+      })
+      .catch((storageError) => console.warn('Failed to load search history:', storageError));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeEpisodeId]);
+  
+
+  const updateSearchHistory = useCallback((update: (entries: SearchHistoryEntry[]) => SearchHistoryEntry[]) => {
+    if (!activeEpisodeId) return;
+    
+    const entries = update(searchHistory);
+    if (entries === searchHistory) return;
+    setSearchHistory(entries);
+    saveSearchHistory(activeEpisodeId, entries).catch((storageError) => {
+      console.warn('Failed to persist search history:', storageError);
+    });
+  }, [activeEpisodeId, searchHistory]);
+  
+
+  const rememberQuery = useCallback((query: string) => {
+    updateSearchHistory((entries) => recordQuery(entries, query));
+  }, [updateSearchHistory]);
+  
+
+  const togglePinnedQuery = useCallback((query: string) => {
+    updateSearchHistory((entries) => togglePinnedEntry(entries, query));
+  }, [updateSearchHistory]);
+  
+
+  const forgetQuery = useCallback((query: string) => {
+    updateSearchHistory((entries) => removeQuery(entries, query));
+  }, [updateSearchHistory]);
+  
+
+  const renameSpeaker = useCallback((episodeId: string, speaker: string, name: string) => {
+    const episode = episodes.find((candidate) => candidate.id === episodeId);
+    if (!episode) return;
+    
+    const speakerNames = { ...episode.speakerNames };
+    if (name.trim()) {
+      speakerNames[speaker] = name.trim();
+    } else {
+      delete speakerNames[speaker];
+    }
+    
+    setEpisodes((prev) => prev.map((candidate) => candidate.id === episodeId ? { ...candidate, speakerNames } : candidate));
+    saveSpeakerNames(episodeId, speakerNames).catch((storageError) => {
+      console.warn('Failed to persist speaker names:', storageError);
     });
-  }, [segments.length, postToWorker]);
+  }, [episodes]);
   
 
   const clearSearch = useCallback(() => {
+    rpcRef.current?.discard('search');
+    setIsSearching(false);
     setSearchResults([]);
+    setWorkerAnswer(null);
+    setSimilarTo(null);
+    setQueryHints([]);
     setSearchQuery('');
   }, []);
   
 
-  const clearAll = useCallback(() => {
-    postToWorker({ type: 'clear' });
-  }, [postToWorker]);
+  const clearAll = useCallback((): Promise<void> => {
+    return requestWorker({ type: 'clear' })
+      .then(() => {
+        // A search still in flight would bring back results from the cleared library
+        rpcRef.current?.discard('search');
+        audioBlobsRef.current.clear();
+        setDraftEpisode(null);
+        setResumableJobs([]);
+        setChapteringEpisodeId(null);
+        setEpisodes([]);
+        setActiveEpisodeId(null);
+        setIsSearching(false);
+        setSearchResults([]);
+        setWorkerAnswer(null);
+        setSimilarTo(null);
+        setSearchQuery('');
+        setAudioFile(null);
+        // Revoke old audio URL if exists
+        releaseAudioUrl();
+      })
+      .catch((clearError) => rejectWithError(`Failed to clear the library: ${clearError instanceof Error ? clearError.message : 'Unknown error'}`));
+  }, [requestWorker, releaseAudioUrl, rejectWithError]);
+  
+
+  const updateSettings = useCallback((next: ModelSettings) => {
+    if (isTranscribing || isRecording) {
+      setError('Wait for the current transcription to finish before changing models.');
+      return;
+    }
+    
+    setIsModelReady(false);
+    // Scores from the previous embedder aren't comparable to new ones
+    rpcRef.current?.discard('search');
+    setIsSearching(false);
+    setSearchResults([]);
+    setWorkerAnswer(null);
+    setSimilarTo(null);
+    setProgress({
+      stage: 'Initializing',
+      progress: 0,
+      message: 'Applying model settings...',
+    });
+    postToWorker({ type: 'configure', settings: next });
+  }, [isTranscribing, isRecording, postToWorker]);
   
   return {
     isModelReady,
     isTranscribing,
+    isRecording,
     isSearching,
     device,
+    models,
+    settings,
     progress,
     audioFile,
+    episodes,
+    draftEpisode,
+    activeEpisodeId,
     segments,
     searchResults,
     searchQuery,
+    searchScope,
+    searchMode,
+    searchFilters,
+    queryHints,
+    similarTo,
+    searchHistory,
+    keyPhrases,
+    answer,
+    speakerFilter,
+    resumableJobs,
+    chapteringEpisodeId,
+    recovery,
     error,
     
     loadAudio,
+    cancelTranscription,
+    resumeJob,
+    discardJob,
+    startRecording,
+    stopRecording,
+    selectEpisode,
+    removeEpisode,
+    generateChapters,
     search,
+    findSimilar,
+    setSearchScope: changeSearchScope,
+    setSearchMode: changeSearchMode,
+    setSearchFilters: changeSearchFilters,
+    setSpeakerFilter: changeSpeakerFilter,
+    rememberQuery,
+    togglePinnedQuery,
+    forgetQuery,
+    renameSpeaker,
     clearSearch,
     clearAll,
+    updateSettings,
     setSearchQuery,
   };
 }
 
 
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+
 function formatStage(stage: string): string {
   const stageMap: Record<string, string> = {
     'loading-asr': 'Loading Speech Recognition',
     'loading-embedder': 'Loading Embedding Model',
+    'loading-diarizer': 'Loading Speaker Model',
+    'loading-reranker': 'Loading Reranker',
+    'loading-qa': 'Loading Q&A Model',
+    'loading-summarizer': 'Loading Summarizer',
+    'summarizing': 'Generating Chapters',
     'transcribing': 'Transcribing Audio',
     'embedding': 'Generating Embeddings',
     'indexing': 'Indexing for Search',
@@ -0,0 +1,58 @@
+/**
+ * InsightCast Audio Helpers
+ *
+ * Whisper expects 16kHz mono Float32Array. AudioContext is not available in
+ * Workers, so all decoding and resampling happens on the main thread.
+ */
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+/**
+ * Downmix and resample an AudioBuffer to 16kHz mono.
+ */
+async function renderMono16k(audioBuffer: AudioBuffer): Promise<Float32Array> {
+  const targetLength = Math.ceil(audioBuffer.duration * TARGET_SAMPLE_RATE);
+  
+  const offlineContext = new OfflineAudioContext(
+    1, // mono output
+    targetLength,
+    TARGET_SAMPLE_RATE
+  );
+  
+  const source = offlineContext.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(offlineContext.destination);
+  source.start(0);
+  
+  const resampledBuffer = await offlineContext.startRendering();
+  return new Float32Array(resampledBuffer.getChannelData(0));
+}
+
+/**
+ * Decode an audio file of any browser-supported format to 16kHz mono samples.
+ */
+export async function decodeAudioFile(file: Blob): Promise<{ samples: Float32Array; duration: number }> {
+  const arrayBuffer = await file.arrayBuffer();
+  
+  const audioContext = new AudioContext();
+  let audioBuffer: AudioBuffer;
+  
+  try {
+    audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    await audioContext.close();
+  }
+  
+  return { samples: await renderMono16k(audioBuffer), duration: audioBuffer.duration };
+}
+
+/**
+ * Resample raw mono PCM captured at `sampleRate` to 16kHz.
+ */
+export async function resampleTo16k(samples: Float32Array, sampleRate: number): Promise<Float32Array> {
+  if (sampleRate === TARGET_SAMPLE_RATE) return samples;
+  
+  const audioBuffer = new AudioBuffer({ numberOfChannels: 1, length: samples.length, sampleRate });
+  audioBuffer.getChannelData(0).set(samples);
+  return renderMono16k(audioBuffer);
+}
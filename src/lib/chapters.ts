@@ -0,0 +1,132 @@
+/**
+ * InsightCast Chapter Detection
+ *
+ * Splits an episode into topical chapters, TextTiling style: the transcript
+ * is cut into blocks of roughly equal duration, each block is embedded, and
+ * a chapter starts wherever similarity between neighbouring blocks dips
+ * much deeper than the dips around it.
+ */
+
+import type { TranscriptSegment } from '../types';
+import { yieldToEventLoop, type EmbedText } from './search';
+
+/** Target duration of the blocks compared for topic shifts */
+const BLOCK_SECONDS = 45;
+/** No chapter is shorter than this */
+const MIN_CHAPTER_SECONDS = 120;
+const MAX_CHAPTERS = 12;
+/** Longest text handed to the summarizer per chapter */
+const MAX_SUMMARY_INPUT_CHARS = 4000;
+const MAX_TITLE_WORDS = 8;
+
+export interface ChapterSpan {
+  start: number;
+  end: number;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Group consecutive segments into blocks of about `blockSeconds` each.
+ */
+export function groupIntoBlocks(segments: TranscriptSegment[], blockSeconds = BLOCK_SECONDS): TranscriptSegment[][] {
+  const blocks: TranscriptSegment[][] = [];
+  let current: TranscriptSegment[] = [];
+
+  for (const segment of segments) {
+    current.push(segment);
+    if (segment.end - (current[0]?.start ?? segment.start) >= blockSeconds) {
+      blocks.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+}
+
+/**
+ * TextTiling depth of each gap between blocks: how far similarity across
+ * the gap falls below the highest similarity reachable on either side
+ * without first climbing down. Deep gaps are topic shifts.
+ */
+export function gapDepths(embeddings: number[][]): number[] {
+  const similarities = embeddings.slice(1).map((embedding, i) => dot(embeddings[i] ?? [], embedding));
+
+  return similarities.map((similarity, gap) => {
+    let left = similarity;
+    for (let i = gap - 1; i >= 0 && (similarities[i] ?? -Infinity) >= left; i--) left = similarities[i] ?? left;
+    let right = similarity;
+    for (let i = gap + 1; i < similarities.length && (similarities[i] ?? -Infinity) >= right; i++) right = similarities[i] ?? right;
+    return (left - similarity) + (right - similarity);
+  });
+}
+
+/**
+ * Split `segments` into chapters at the deepest topic shifts that keep
+ * every chapter at least MIN_CHAPTER_SECONDS long.
+ */
+export async function detectChapters(segments: TranscriptSegment[], embed: EmbedText): Promise<ChapterSpan[]> {
+  if (segments.length === 0) return [];
+
+  const blocks = groupIntoBlocks(segments);
+  const embeddings: number[][] = [];
+  for (const block of blocks) {
+    embeddings.push(await embed(block.map((segment) => segment.text).join(' ')));
+    await yieldToEventLoop();
+  }
+
+  const depths = gapDepths(embeddings);
+  const mean = depths.reduce((sum, depth) => sum + depth, 0) / (depths.length || 1);
+  // Gap i sits before block i + 1; try the deepest above-average gaps first
+  const candidates = depths
+    .map((depth, gap) => ({ depth, block: gap + 1 }))
+    .filter(({ depth }) => depth > mean)
+    .sort((a, b) => b.depth - a.depth);
+
+  const blockStart = (index: number) => blocks[index]?.[0]?.start ?? 0;
+  const episodeStart = segments[0]?.start ?? 0;
+  const episodeEnd = segments[segments.length - 1]?.end ?? 0;
+
+  const boundaries: number[] = [];
+  for (const { block } of candidates) {
+    if (boundaries.length + 1 >= MAX_CHAPTERS) break;
+    const starts = [episodeStart, ...[...boundaries, block].sort((a, b) => a - b).map(blockStart), episodeEnd];
+    if (starts.slice(1).every((start, i) => start - (starts[i] ?? 0) >= MIN_CHAPTER_SECONDS)) {
+      boundaries.push(block);
+    }
+  }
+  boundaries.sort((a, b) => a - b);
+
+  return [0, ...boundaries].map((first, i) => {
+    const chapterSegments = blocks.slice(first, boundaries[i] ?? blocks.length).flat();
+    return {
+      start: chapterSegments[0]?.start ?? episodeStart,
+      end: chapterSegments[chapterSegments.length - 1]?.end ?? episodeEnd,
+      segments: chapterSegments,
+    };
+  });
+}
+
+/**
+ * Chapter transcript as summarizer input, cut to a length it can read.
+ */
+export function chapterText(span: ChapterSpan): string {
+  const text = span.segments.map((segment) => segment.text.trim()).join(' ');
+  return text.length > MAX_SUMMARY_INPUT_CHARS ? text.slice(0, MAX_SUMMARY_INPUT_CHARS) : text;
+}
+
+/**
+ * Short chapter title: the summary's first sentence, capped at a few words.
+ */
+export function titleFromSummary(summary: string): string {
+  const sentence = summary.trim().split(/(?<=[.!?])\s/)[0] ?? '';
+  const words = sentence.replace(/[.!?,;:]+$/, '').split(/\s+/).filter(Boolean);
+  return words.length > MAX_TITLE_WORDS
+    ? `${words.slice(0, MAX_TITLE_WORDS).join(' ')}…`
+    : words.join(' ');
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] ?? 0) * (b[i] ?? 0);
+  return sum;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../types';
+import { chunkSegments, chunkSettledSegments, estimateTokens, type ContextWindow } from './chunking';
+
+function segment(index: number, text: string, overrides: Partial<TranscriptSegment> = {}): TranscriptSegment {
+  return { id: `s${index}`, start: index * 3, end: index * 3 + 2.5, text, speaker: 'S0', ...overrides };
+}
+
+const WORDS = 'the quick brown fox jumps over lazy dogs while the band plays on and on'.split(' ');
+
+/** A long transcript: sentences spanning segments, speaker changes, some translations */
+const transcript = Array.from({ length: 60 }, (_, i) => segment(
+  i,
+  Array.from({ length: 6 + (i % 5) }, (_, j) => WORDS[(i + j) % WORDS.length]).join(' ') + (i % 3 === 2 ? '.' : ''),
+  { speaker: i % 20 < 12 ? 'S0' : 'S1', ...(i % 4 === 0 ? { translation: 'hello there friend.' } : {}) },
+));
+
+const describeWindows = (windows: ContextWindow[]) =>
+  windows.map((window) => `${window.id}:${window.segmentIds.join('+')}`).sort();
+
+/** Chunk `segments` arriving `size` at a time, as a transcription window or recording chunk would */
+function chunkIncrementally(segments: TranscriptSegment[], size: number): ContextWindow[] {
+  const windows: ContextWindow[] = [];
+  let pending: TranscriptSegment[] = [];
+  for (let i = 0; i < segments.length; i += size) {
+    const settled = chunkSettledSegments([...pending, ...segments.slice(i, i + size)], i + size >= segments.length);
+    windows.push(...settled.windows);
+    pending = settled.pending;
+  }
+  return windows;
+}
+
+describe('estimateTokens', () => {
+  it.each<[string, number]>([
+    ['', 0],
+    ['one', 2],
+    ['three short words', 4],
+    ['  spaced   out  ', 3],
+  ])('%j is about %i tokens', (text, tokens) => {
+    expect(estimateTokens(text)).toBe(tokens);
+  });
+});
+
+describe('chunkSegments', () => {
+  it('joins a sentence split across segments into one window', () => {
+    const windows = chunkSegments([segment(0, 'We should talk about'), segment(1, 'the budget today.')]);
+    expect(windows).toHaveLength(1);
+    expect(windows[0]).toMatchObject({
+      id: 's0_0', text: 'We should talk about the budget today.', segmentIds: ['s0', 's1'], start: 0, end: 5.5, translated: false,
+    });
+  });
+
+  it.each<[string, Partial<TranscriptSegment>]>([
+    ['a speaker change', { speaker: 'S1' }],
+    ['a long pause', { start: 20, end: 22 }],
+  ])('never joins across %s', (_, overrides) => {
+    const windows = chunkSegments([segment(0, 'We should talk about'), segment(1, 'the budget today.', overrides)]);
+    expect(windows.map((window) => window.segmentIds)).toEqual([['s0'], ['s1']]);
+  });
+
+  it('adds windows over translations', () => {
+    const windows = chunkSegments([segment(0, 'Hola a todos.', { translation: 'Hello everyone.' })]);
+    expect(windows.map(({ id, text, translated }) => ({ id, text, translated }))).toEqual([
+      { id: 's0_0', text: 'Hola a todos.', translated: false },
+      { id: 's0_t0', text: 'Hello everyone.', translated: true },
+    ]);
+  });
+
+  it('gives every window a unique ID', () => {
+    const ids = chunkSegments(transcript).map((window) => window.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('chunkSettledSegments', () => {
+  it('holds back the segments of the last window', () => {
+    const segments = [segment(0, 'First thought here.'), segment(1, 'And a second one that', { start: 10, end: 12 })];
+    const { windows, pending } = chunkSettledSegments(segments);
+    expect(windows.map((window) => window.segmentIds)).toEqual([['s0']]);
+    expect(pending.map((held) => held.id)).toEqual(['s1']);
+  });
+
+  it('settles everything when no more segments follow', () => {
+    const { windows, pending } = chunkSettledSegments([segment(0, 'Only one.')], true);
+    expect(windows).toHaveLength(1);
+    expect(pending).toEqual([]);
+  });
+
+  it('holds back from the earlier of the text and translation last windows', () => {
+    const segments = [
+      segment(0, 'Uno.', { translation: 'One, and' }),
+      segment(1, 'Dos.'),
+      segment(2, 'Tres.'),
+    ];
+    const { windows, pending } = chunkSettledSegments(segments);
+    expect(pending.map((held) => held.id)).toEqual(['s0', 's1', 's2']);
+    expect(windows).toEqual([]);
+  });
+
+  it.each([1, 7, 13, 30])('cuts the same windows as one pass when segments arrive %i at a time', (size) => {
+    expect(describeWindows(chunkIncrementally(transcript, size))).toEqual(describeWindows(chunkSegments(transcript)));
+  });
+
+  it('never hands out a window ID twice', () => {
+    const ids = chunkIncrementally(transcript, 5).map((window) => window.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
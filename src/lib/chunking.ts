@@ -0,0 +1,244 @@
+/**
+ * InsightCast Context Windows
+ *
+ * Whisper cuts segments at pauses, which often splits one thought across
+ * two or three segments. Indexing segments one by one leaves each half too
+ * thin to match. Instead, sentences are rejoined across segment boundaries
+ * and packed into overlapping windows that fit a token budget. Each window
+ * remembers every segment it spans, so a hit maps back to that whole span.
+ */
+
+import type { TranscriptSegment } from '../types';
+
+/** Largest window handed to the embedder, in estimated tokens */
+const MAX_WINDOW_TOKENS = 128;
+/** Consecutive windows repeat up to this many tokens of whole sentences */
+const WINDOW_OVERLAP_TOKENS = 32;
+/** Segments further apart than this (seconds) never share a sentence or window */
+const MAX_JOIN_GAP_S = 2;
+
+/** Bump when windows change, so stored episodes are re-chunked and re-embedded */
+export const CHUNKER_VERSION = 2;
+
+// A sentence with its closing punctuation (and quotes or brackets), or trailing text without any
+const SENTENCE_PATTERN = /[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g;
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+/**
+ * A passage of consecutive sentences, possibly spanning several segments.
+ */
+export interface ContextWindow {
+  /** Index document ID: `<first segment>_<n>`, `<first segment>_t<n>` for translations */
+  id: string;
+  /** Window text, embedded and indexed for keyword search */
+  text: string;
+  /** Full text of the spanned segments, for display */
+  context: string;
+  /** Start of the first spanned segment in seconds */
+  start: number;
+  /** End of the last spanned segment in seconds */
+  end: number;
+  /** Spanned segments in playback order */
+  segmentIds: string[];
+  speaker?: string;
+  /** Built from the segments' English translations */
+  translated: boolean;
+}
+
+interface SentencePiece {
+  text: string;
+  segment: TranscriptSegment;
+  tokens: number;
+  /** Ends with sentence punctuation, or was cut to fit the budget */
+  complete: boolean;
+}
+
+interface Sentence {
+  pieces: SentencePiece[];
+  tokens: number;
+  /** A speaker change or long pause separates it from the previous sentence */
+  breakBefore: boolean;
+}
+
+/**
+ * Rough subword token count; embedders split English words into about
+ * 4/3 tokens on average.
+ */
+export function estimateTokens(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil((words * 4) / 3);
+}
+
+/**
+ * Sentence pieces of one segment's text. Unpunctuated ASR output can run
+ * on for a whole segment, so pieces are also cut to fit a window.
+ */
+function splitSentences(segment: TranscriptSegment, text: string): SentencePiece[] {
+  const maxWords = Math.floor((MAX_WINDOW_TOKENS * 3) / 4);
+  const pieces: SentencePiece[] = [];
+
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    const words = match[0].trim().split(/\s+/).filter(Boolean);
+    const complete = SENTENCE_END.test(match[0].trim());
+
+    for (let i = 0; i < words.length; i += maxWords) {
+      const piece = words.slice(i, i + maxWords).join(' ');
+      const isLast = i + maxWords >= words.length;
+      pieces.push({ text: piece, segment, tokens: estimateTokens(piece), complete: complete || !isLast });
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Sentences of `segments`, joined across segment boundaries when the
+ * speaker stays the same and the pause between them is short.
+ */
+function joinSentences(segments: TranscriptSegment[], textOf: (segment: TranscriptSegment) => string | undefined): Sentence[] {
+  const sentences: Sentence[] = [];
+  let current: SentencePiece[] = [];
+  let breakBefore = false;
+  let previous: TranscriptSegment | undefined;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    sentences.push({ pieces: current, tokens: current.reduce((sum, piece) => sum + piece.tokens, 0), breakBefore });
+    current = [];
+    breakBefore = false;
+  };
+
+  for (const segment of segments) {
+    const text = textOf(segment)?.trim();
+    const isContinuous = previous !== undefined
+      && previous.speaker === segment.speaker
+      && segment.start - previous.end <= MAX_JOIN_GAP_S;
+
+    if (!text || !isContinuous) {
+      flush();
+      breakBefore = true;
+    }
+    previous = text ? segment : undefined;
+    if (!text) continue;
+
+    for (const piece of splitSentences(segment, text)) {
+      const tokens = current.reduce((sum, existing) => sum + existing.tokens, 0);
+      if (tokens + piece.tokens > MAX_WINDOW_TOKENS) flush();
+      current.push(piece);
+      if (piece.complete) flush();
+    }
+  }
+  flush();
+
+  return sentences;
+}
+
+/**
+ * Pack sentences into windows of at most MAX_WINDOW_TOKENS, each starting
+ * a few sentences before the previous one ended. Windows never cross a
+ * speaker change or long pause.
+ */
+function packWindows(sentences: Sentence[]): Sentence[][] {
+  const runs: Sentence[][] = [];
+  for (const sentence of sentences) {
+    const run = runs[runs.length - 1];
+    if (run && !sentence.breakBefore) run.push(sentence);
+    else runs.push([sentence]);
+  }
+
+  const windows: Sentence[][] = [];
+  for (const run of runs) {
+    let first = 0;
+    while (first < run.length) {
+      let end = first;
+      let tokens = 0;
+      while (end < run.length && (end === first || tokens + (run[end]?.tokens ?? 0) <= MAX_WINDOW_TOKENS)) {
+        tokens += run[end]?.tokens ?? 0;
+        end++;
+      }
+      windows.push(run.slice(first, end));
+      if (end >= run.length) break;
+
+      // Step back so the next window repeats the last sentences of this one
+      let next = end;
+      let overlap = 0;
+      while (next - 1 > first && overlap + (run[next - 1]?.tokens ?? 0) <= WINDOW_OVERLAP_TOKENS) {
+        next--;
+        overlap += run[next]?.tokens ?? 0;
+      }
+      first = next;
+    }
+  }
+  return windows;
+}
+
+function buildWindows(segments: TranscriptSegment[], translated: boolean): ContextWindow[] {
+  const textOf = (segment: TranscriptSegment) => translated ? segment.translation : segment.text;
+  const counts = new Map<string, number>();
+
+  return packWindows(joinSentences(segments, textOf)).flatMap((sentences) => {
+    const pieces = sentences.flatMap((sentence) => sentence.pieces);
+    const spanned = [...new Set(pieces.map((piece) => piece.segment))];
+    const first = spanned[0];
+    const last = spanned[spanned.length - 1];
+    if (!first || !last) return [];
+
+    const index = counts.get(first.id) ?? 0;
+    counts.set(first.id, index + 1);
+
+    return [{
+      id: `${first.id}_${translated ? 't' : ''}${index}`,
+      text: pieces.map((piece) => piece.text).join(' '),
+      context: spanned.map((segment) => textOf(segment)?.trim() ?? '').join(' '),
+      start: first.start,
+      end: last.end,
+      segmentIds: spanned.map((segment) => segment.id),
+      speaker: first.speaker,
+      translated,
+    }];
+  });
+}
+
+/**
+ * Context windows over `segments`, plus windows over their English
+ * translations when there are any, so English queries find foreign audio.
+ */
+export function chunkSegments(segments: TranscriptSegment[]): ContextWindow[] {
+  const hasTranslations = segments.some((segment) => segment.translation);
+  return [...buildWindows(segments, false), ...(hasTranslations ? buildWindows(segments, true) : [])];
+}
+
+/** Windows of a transcript that is still growing, and the segments not yet in one */
+export interface SettledChunks {
+  /** Windows the segments still to come can no longer change */
+  windows: ContextWindow[];
+  /** Trailing segments held back; chunk them again ahead of the next ones */
+  pending: TranscriptSegment[];
+}
+
+/**
+ * Context windows over the part of a growing transcript that is settled.
+ * The last window of the text (and of the translations) could still take
+ * in sentences from the next segments, so it is held back together with
+ * every window starting at or after it; windows handed out earlier never
+ * start in a held-back segment, which keeps document IDs unique. With
+ * `final` no more segments follow, and everything is settled.
+ */
+export function chunkSettledSegments(segments: TranscriptSegment[], final = false): SettledChunks {
+  const windows = chunkSegments(segments);
+  if (final) return { windows, pending: [] };
+
+  const position = new Map(segments.map((segment, i) => [segment.id, i]));
+  const startOf = (window: ContextWindow) => position.get(window.segmentIds[0] ?? '') ?? 0;
+
+  const lastStarts = [false, true].flatMap((translated) => {
+    const group = windows.filter((window) => window.translated === translated);
+    const last = group[group.length - 1];
+    return last ? [startOf(last)] : [];
+  });
+  const pendingFrom = lastStarts.length > 0 ? Math.min(...lastStarts) : segments.length;
+
+  return {
+    windows: windows.filter((window) => startOf(window) < pendingFrom),
+    pending: segments.slice(pendingFrom),
+  };
+}
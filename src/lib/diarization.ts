@@ -0,0 +1,58 @@
+/**
+ * InsightCast Speaker Clustering
+ *
+ * Online clustering of speaker embeddings (x-vectors). Each segment's
+ * embedding joins the most similar known speaker, or starts a new one
+ * when nobody is close enough. Running online means windows, resumed
+ * checkpoints and live recordings can all be labelled as they arrive.
+ */
+
+import type { SpeakerCentroid } from '../types';
+
+/** Cosine similarity above which two segments are treated as the same voice */
+const SAME_SPEAKER_THRESHOLD = 0.8;
+/** Beyond this, new voices join their nearest speaker instead of creating more */
+const MAX_SPEAKERS = 8;
+
+/**
+ * Assign an L2-normalized speaker embedding to a cluster and return its ID.
+ * `speakers` is updated in place: the winning centroid moves towards the embedding.
+ */
+export function assignSpeaker(speakers: SpeakerCentroid[], embedding: number[]): string {
+  let best: SpeakerCentroid | null = null;
+  let bestSimilarity = -Infinity;
+
+  for (const speaker of speakers) {
+    const similarity = dot(speaker.embedding, embedding);
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity;
+      best = speaker;
+    }
+  }
+
+  if (!best || (bestSimilarity < SAME_SPEAKER_THRESHOLD && speakers.length < MAX_SPEAKERS)) {
+    const created: SpeakerCentroid = { id: `S${speakers.length + 1}`, embedding: [...embedding], count: 1 };
+    speakers.push(created);
+    return created.id;
+  }
+
+  // Running mean, re-normalized so dot products stay cosine similarities
+  const weight = best.count / (best.count + 1);
+  best.embedding = normalize(best.embedding.map((value, i) => value * weight + (embedding[i] ?? 0) * (1 - weight)));
+  best.count += 1;
+  return best.id;
+}
+
+export function normalize(vector: ArrayLike<number>): number[] {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += (vector[i] ?? 0) ** 2;
+  norm = Math.sqrt(norm) || 1;
+
+  return Array.from(vector, (value) => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] ?? 0) * (b[i] ?? 0);
+  return sum;
+}
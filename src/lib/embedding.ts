@@ -0,0 +1,144 @@
+/**
+ * InsightCast Batched Embedding
+ *
+ * Batch sizes per device, an optional pool of extra embedding workers for
+ * WASM, and the throughput meter behind indexing progress. WebGPU gets its
+ * speed from large batches; WASM is CPU-bound, so spreading batches over
+ * several single-threaded workers uses more cores than one pipeline does.
+ */
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import type { EmbedBatch } from './search';
+import type { EmbeddingWorkerInputMessage, EmbeddingWorkerOutputMessage, ModelDtype } from '../types';
+
+// Windows per embedder call: the GPU amortizes dispatch over large batches,
+// while on WASM padding to the longest text makes big batches wasteful
+const BATCH_SIZES = { webgpu: 32, wasm: 8 } as const;
+const MIN_POOL_SIZE = 2;
+const MAX_POOL_SIZE = 4;
+
+export function getEmbedBatchSize(device: 'webgpu' | 'wasm'): number {
+  return BATCH_SIZES[device];
+}
+
+/**
+ * Workers to start for a pool: half the logical cores, leaving the rest to
+ * ASR and the page.
+ */
+export function getEmbeddingPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(MIN_POOL_SIZE, Math.min(MAX_POOL_SIZE, Math.floor(cores / 2)));
+}
+
+/**
+ * Mean-pooled, normalized embeddings of `texts` in one pipeline call.
+ */
+export async function embedTexts(embedder: FeatureExtractionPipeline, texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  const output = await embedder(texts, { pooling: 'mean', normalize: true });
+  return output.tolist() as number[][];
+}
+
+export interface EmbeddingPool {
+  size: number;
+  /** Splits the batch evenly over the pool's workers; rejects once any of them crashed */
+  embed: EmbedBatch;
+  dispose: () => void;
+}
+
+type EmbedderLoadRequest = Extract<EmbeddingWorkerInputMessage, { type: 'load' }>;
+type EmbedRequest = Extract<EmbeddingWorkerInputMessage, { type: 'embed' }>;
+type PoolRequest = Omit<EmbedderLoadRequest, 'id'> | Omit<EmbedRequest, 'id'>;
+
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, { resolve: (message: EmbeddingWorkerOutputMessage) => void; reject: (error: Error) => void }>;
+  /** Set once the worker crashed; it won't answer anything after that */
+  failure?: Error;
+}
+
+let nextRequestId = 0;
+
+function startPoolWorker(): PoolWorker {
+  const worker = new Worker(new URL('../embedding.worker.ts', import.meta.url), { type: 'module' });
+  const member: PoolWorker = { worker, pending: new Map() };
+
+  worker.onmessage = (event: MessageEvent<EmbeddingWorkerOutputMessage>) => {
+    const message = event.data;
+    const request = member.pending.get(message.id);
+    if (!request) return;
+    member.pending.delete(message.id);
+    if (message.type === 'error') request.reject(new Error(message.message));
+    else request.resolve(message);
+  };
+
+  // A crashed worker never answers; fail everything it still owes
+  worker.onerror = (event) => {
+    event.preventDefault();
+    member.failure = new Error(event.message || 'Embedding worker failed');
+    for (const request of member.pending.values()) request.reject(member.failure);
+    member.pending.clear();
+  };
+  return member;
+}
+
+function send(member: PoolWorker, request: PoolRequest): Promise<EmbeddingWorkerOutputMessage> {
+  if (member.failure) return Promise.reject(member.failure);
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    member.pending.set(id, { resolve, reject });
+    member.worker.postMessage({ ...request, id } as EmbeddingWorkerInputMessage);
+  });
+}
+
+/**
+ * Start `size` embedding workers, each loading `model` on WASM. Rejects
+ * (and stops the workers) if any of them fails to load.
+ */
+export async function createEmbeddingPool(model: string, dtype: Exclude<ModelDtype, 'auto'>, size: number): Promise<EmbeddingPool> {
+  const members = Array.from({ length: size }, startPoolWorker);
+  const dispose = () => members.forEach((member) => member.worker.terminate());
+
+  try {
+    await Promise.all(members.map((member) => send(member, { type: 'load', model, dtype })));
+  } catch (error) {
+    dispose();
+    throw error;
+  }
+
+  return {
+    size,
+    async embed(texts) {
+      const sliceSize = Math.ceil(texts.length / size);
+      const slices = await Promise.all(members.map(async (member, i) => {
+        const slice = texts.slice(i * sliceSize, (i + 1) * sliceSize);
+        if (slice.length === 0) return [];
+        const reply = await send(member, { type: 'embed', texts: slice });
+        return reply.type === 'embeddings' ? reply.vectors : [];
+      }));
+      return slices.flat();
+    },
+    dispose,
+  };
+}
+
+export interface Throughput {
+  /** Items per second so far */
+  rate: number;
+  /** Estimated seconds until all items are done; unknown until something is */
+  eta?: number;
+}
+
+/**
+ * Throughput meter started now: call it with the items done so far and the
+ * job's total to get the average rate since then and the time left at that
+ * rate.
+ */
+export function createThroughputMeter(): (done: number, total: number) => Throughput {
+  const startTime = performance.now();
+  return (done, total) => {
+    const elapsed = (performance.now() - startTime) / 1000;
+    const rate = elapsed > 0 ? done / elapsed : 0;
+    return { rate, eta: rate > 0 ? Math.max(0, total - done) / rate : undefined };
+  };
+}
@@ -0,0 +1,419 @@
+/**
+ * InsightCast Engine Coordinator
+ *
+ * Runs the engine as two workers on the main thread's behalf: the index
+ * worker (library, embedding, search) and the ASR worker (Whisper and
+ * speaker labels). The UI talks to the pair as if it were one worker; the
+ * coordinator forwards its messages to the index worker and routes ASR
+ * requests between the two.
+ *
+ * It also supervises both. A worker that crashes or stops answering
+ * heartbeats is replaced: a new ASR worker is brought back to the last
+ * configuration, a new index worker reloads its models and restores the
+ * library from IndexedDB. Requests in flight at the time are sent again
+ * once the replacement is ready, and so are model settings, chapters and
+ * removals the old worker had not confirmed; one interrupted twice fails.
+ */
+
+import type {
+  WorkerInputMessage,
+  WorkerOutputMessage,
+  ErrorMessage,
+  ConfigureMessage,
+  GenerateChaptersMessage,
+  RemoveEpisodeMessage,
+  TranscribeMessage,
+  RecoveryMessage,
+  IndexWorkerInputMessage,
+  IndexWorkerOutputMessage,
+  AsrConfigureMessage,
+  AsrRequestMessage,
+  AsrResponseMessage,
+  AsrWorkerInputMessage,
+  AsrWorkerOutputMessage,
+} from '../types';
+import type { RpcMethod } from './rpc';
+import { decodeAudioFile } from './audio';
+import { getAudioBlob } from './storage';
+
+const HEARTBEAT_INTERVAL_MS = 5_000;
+// Silence allowed before a worker counts as hung. The index worker yields
+// between embedding batches and chapter summaries, so only a single model
+// call has to fit; a Whisper window on WASM blocks the ASR worker's thread
+// for a long time, so it gets more slack.
+const HEARTBEAT_TIMEOUT_MS = { index: 60_000, asr: 180_000 } as const;
+// More restarts than this within the window means the crash will just repeat
+const MAX_RESTARTS = 3;
+const RESTART_WINDOW_MS = 5 * 60_000;
+
+export interface Engine {
+  postMessage: (message: WorkerInputMessage) => void;
+  terminate: () => void;
+}
+
+export interface EngineCallbacks {
+  onMessage: (message: WorkerOutputMessage) => void;
+  /** The index worker failed outside any handled operation, or could not be recovered */
+  onError: (message: string) => void;
+}
+
+type SupervisedWorker = RecoveryMessage['worker'];
+type RpcInput = Extract<WorkerInputMessage, { type: RpcMethod }>;
+
+/**
+ * A request as kept for a retry. Decoded audio runs to hundreds of
+ * megabytes, so a transcription keeps only its episode's ID and decodes
+ * the stored file again if it has to be resent.
+ */
+type StoredRequest = Exclude<RpcInput, TranscribeMessage> | Omit<TranscribeMessage, 'audioSamples'>;
+
+/** An index worker request the UI is waiting on */
+interface InFlightRequest {
+  message: StoredRequest;
+  retried: boolean;
+}
+
+/** A message without a request ID, awaiting the index worker's confirmation */
+type TrackedInput = ConfigureMessage | GenerateChaptersMessage | RemoveEpisodeMessage;
+
+interface PendingMessage {
+  message: TrackedInput;
+  retried: boolean;
+}
+
+/** An ASR request, under the coordinator's own ID, on behalf of an index worker */
+interface AsrRoute {
+  /** ID the index worker asked with */
+  requestId: number;
+  message: AsrRequestMessage;
+  retried: boolean;
+}
+
+const OPERATIONS: Record<RpcInput['type'], ErrorMessage['operation']> = {
+  transcribe: 'transcribe',
+  'import-transcript': 'import',
+  'finish-recording': 'record',
+  search: 'search',
+  ask: 'ask',
+  'find-similar': 'similar',
+  clear: 'clear',
+};
+
+function hasRequestId(message: WorkerInputMessage): message is RpcInput {
+  return 'requestId' in message && message.requestId !== undefined;
+}
+
+function withoutSamples({ audioSamples: _audioSamples, ...request }: TranscribeMessage): StoredRequest {
+  return request;
+}
+
+function isTracked(message: WorkerInputMessage): message is TrackedInput {
+  return message.type === 'configure' || message.type === 'generate-chapters' || message.type === 'remove-episode';
+}
+
+/**
+ * Key a tracked message is pending under; a newer configure replaces an
+ * older one.
+ */
+function pendingKey(message: TrackedInput): string {
+  switch (message.type) {
+    case 'configure': return 'configure';
+    case 'generate-chapters': return `chapters:${message.episodeId}`;
+    case 'remove-episode': return `remove:${message.episodeId}`;
+  }
+}
+
+/** Key of the pending message `message` confirms (or reports failed), if any */
+function confirmedKey(message: WorkerOutputMessage): string | null {
+  switch (message.type) {
+    case 'ready': return 'configure';
+    case 'chapters': return `chapters:${message.episodeId}`;
+    case 'episode-removed': return `remove:${message.episodeId}`;
+    case 'error':
+      if (message.operation === 'configure') return 'configure';
+      if (message.operation === 'chapters') return `chapters:${message.episodeId}`;
+      if (message.operation === 'remove-episode') return `remove:${message.episodeId}`;
+      return null;
+    default: return null;
+  }
+}
+
+const PENDING_OPERATIONS: Record<TrackedInput['type'], ErrorMessage['operation']> = {
+  configure: 'configure',
+  'generate-chapters': 'chapters',
+  'remove-episode': 'remove-episode',
+};
+
+export function createEngine({ onMessage, onError }: EngineCallbacks): Engine {
+  const inFlight = new Map<number, InFlightRequest>();
+  const pending = new Map<string, PendingMessage>();
+  const asrRoutes = new Map<number, AsrRoute>();
+  const lastSeen = { index: Date.now(), asr: Date.now() };
+  const restarts: Record<SupervisedWorker, number[]> = { index: [], asr: [] };
+  let nextAsrId = 1;
+  let stopped = false;
+  // Replayed to a restarted ASR worker
+  let lastConfigure: AsrConfigureMessage | null = null;
+  // Set while a restarted worker is still loading; cleared when it is ready
+  let indexRecovery: string | null = null;
+  let asrRecovery: { reason: string; configureId: number | null; retried: number } | null = null;
+
+  let indexWorker = startIndexWorker();
+  let asrWorker = startAsrWorker();
+
+  function fail(request: StoredRequest, message: string): void {
+    inFlight.delete(request.requestId!);
+    const jobId = 'jobId' in request ? request.jobId : undefined;
+    onMessage({ type: 'error', requestId: request.requestId, message, operation: OPERATIONS[request.type], jobId });
+  }
+
+  function failPending(key: string, message: string): void {
+    const entry = pending.get(key);
+    if (!entry) return;
+    pending.delete(key);
+    const episodeId = 'episodeId' in entry.message ? entry.message.episodeId : undefined;
+    onMessage({ type: 'error', message, operation: PENDING_OPERATIONS[entry.message.type], episodeId });
+  }
+
+  /**
+   * Restart budget check: returns false (and gives up on the engine) once a
+   * worker has crashed too often recently.
+   */
+  function mayRestart(worker: SupervisedWorker, reason: string): boolean {
+    const now = Date.now();
+    restarts[worker] = restarts[worker].filter((time) => now - time < RESTART_WINDOW_MS);
+    if (restarts[worker].length < MAX_RESTARTS) {
+      restarts[worker].push(now);
+      return true;
+    }
+
+    stop();
+    for (const { message } of [...inFlight.values()]) fail(message, reason);
+    for (const key of [...pending.keys()]) failPending(key, reason);
+    onMessage({ type: 'recovery', worker, status: 'failed', reason });
+    onError(`${reason}; giving up after ${MAX_RESTARTS} restarts. Please refresh the page.`);
+    return false;
+  }
+
+  function stop(): void {
+    stopped = true;
+    clearInterval(heartbeat);
+    indexWorker.terminate();
+    asrWorker.terminate();
+  }
+
+  function sendToAsr(message: AsrWorkerInputMessage): void {
+    // Copied rather than transferred, so the samples are still here for a retry
+    asrWorker.postMessage(message);
+  }
+
+  function sendToIndex(message: IndexWorkerInputMessage): void {
+    indexWorker.postMessage(message);
+  }
+
+  function replyToIndex(route: AsrRoute, message: AsrResponseMessage): void {
+    sendToIndex({ ...message, requestId: route.requestId });
+  }
+
+  function startAsrWorker(): Worker {
+    const worker = new Worker(new URL('../asr.worker.ts', import.meta.url), { type: 'module' });
+    lastSeen.asr = Date.now();
+
+    worker.onmessage = (event: MessageEvent<AsrWorkerOutputMessage>) => {
+      const message = event.data;
+      lastSeen.asr = Date.now();
+      if (message.type === 'pong') return;
+      if (message.type === 'progress') {
+        onMessage(message);
+        return;
+      }
+
+      if (asrRecovery && asrRecovery.configureId === message.requestId) {
+        asrRecovery.configureId = null;
+        finishAsrRecovery();
+      }
+      const route = asrRoutes.get(message.requestId);
+      if (!route) return;
+      asrRoutes.delete(message.requestId);
+      if (route.message.type === 'asr-configure' && message.type === 'asr-configured') lastConfigure = route.message;
+      replyToIndex(route, message);
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      console.error('ASR worker crashed:', event.message);
+      restartAsrWorker(event.message || 'Speech recognition worker crashed');
+    };
+    return worker;
+  }
+
+  function restartAsrWorker(reason: string): void {
+    if (stopped || !mayRestart('asr', reason)) return;
+    asrWorker.terminate();
+    onMessage({ type: 'recovery', worker: 'asr', status: 'restarting', reason });
+
+    asrWorker = startAsrWorker();
+    asrRecovery = { reason, configureId: null, retried: 0 };
+    // Its reply matches no route; it only marks the new worker as ready
+    if (lastConfigure) {
+      asrRecovery.configureId = nextAsrId++;
+      sendToAsr({ ...lastConfigure, requestId: asrRecovery.configureId });
+    }
+
+    // The ASR worker handles requests in order, so retries run after the configure
+    for (const [id, route] of asrRoutes) {
+      if (route.retried) {
+        asrRoutes.delete(id);
+        replyToIndex(route, { type: 'asr-error', requestId: id, message: reason });
+      } else {
+        route.retried = true;
+        asrRecovery.retried++;
+        sendToAsr({ ...route.message, requestId: id });
+      }
+    }
+    if (asrRecovery.configureId === null) finishAsrRecovery();
+  }
+
+  function finishAsrRecovery(): void {
+    if (!asrRecovery) return;
+    onMessage({ type: 'recovery', worker: 'asr', status: 'recovered', reason: asrRecovery.reason, retried: asrRecovery.retried });
+    asrRecovery = null;
+  }
+
+  function startIndexWorker(): Worker {
+    const worker = new Worker(new URL('../worker.ts', import.meta.url), { type: 'module' });
+    lastSeen.index = Date.now();
+
+    worker.onmessage = (event: MessageEvent<IndexWorkerOutputMessage>) => {
+      const message = event.data;
+      lastSeen.index = Date.now();
+      switch (message.type) {
+        case 'pong':
+          break;
+        case 'asr-configure':
+        case 'asr-transcribe': {
+          const id = nextAsrId++;
+          asrRoutes.set(id, { requestId: message.requestId, message, retried: false });
+          sendToAsr({ ...message, requestId: id });
+          break;
+        }
+        default: {
+          if ('requestId' in message && message.requestId !== undefined) inFlight.delete(message.requestId);
+          // The recovering worker's own 'ready' says nothing about a configure it never got
+          const key = indexRecovery ? null : confirmedKey(message);
+          if (key) pending.delete(key);
+          onMessage(message);
+          if (indexRecovery && message.type === 'ready') finishIndexRecovery();
+          else if (indexRecovery && message.type === 'error' && message.operation === 'load') abandonIndexRecovery(message.message);
+        }
+      }
+    };
+
+    // Uncaught errors don't stop the worker by themselves; heartbeats decide whether it is gone
+    worker.onerror = (event) => {
+      console.error('Index worker error:', event);
+      onError(event.message);
+    };
+    return worker;
+  }
+
+  function restartIndexWorker(reason: string): void {
+    if (stopped || !mayRestart('index', reason)) return;
+    indexWorker.terminate();
+    onMessage({ type: 'recovery', worker: 'index', status: 'restarting', reason });
+
+    // ASR work the old worker asked for has no one left to receive it
+    asrRoutes.clear();
+    indexWorker = startIndexWorker();
+    indexRecovery = reason;
+    sendToIndex({ type: 'load' });
+  }
+
+  /**
+   * The new index worker has its models and library back: send the
+   * interrupted requests again, once each.
+   */
+  function finishIndexRecovery(): void {
+    const reason = indexRecovery!;
+    indexRecovery = null;
+    let retried = 0;
+    for (const request of [...inFlight.values()]) {
+      // Chunks of a live recording lived only in the old worker
+      if (request.retried || request.message.type === 'finish-recording') {
+        fail(request.message, `${reason}; the request could not be recovered`);
+      } else {
+        request.retried = true;
+        retried++;
+        resend(request.message);
+      }
+    }
+    for (const [key, entry] of pending) {
+      if (entry.retried) {
+        failPending(key, `${reason}; the request could not be recovered`);
+      } else {
+        entry.retried = true;
+        retried++;
+        sendToIndex(entry.message);
+      }
+    }
+    onMessage({ type: 'recovery', worker: 'index', status: 'recovered', reason, retried });
+  }
+
+  function resend(request: StoredRequest): void {
+    if (request.type !== 'transcribe') {
+      sendToIndex(request);
+      return;
+    }
+
+    getAudioBlob(request.episodeId)
+      .then((blob) => {
+        if (!blob) throw new Error('its audio is no longer stored');
+        return decodeAudioFile(blob);
+      })
+      .then(({ samples }) => {
+        // Cancelled, or interrupted again while decoding; the next recovery fails it
+        if (stopped || indexRecovery || !inFlight.has(request.requestId!)) return;
+        sendToIndex({ ...request, audioSamples: samples });
+      })
+      .catch((error) => {
+        if (!inFlight.has(request.requestId!)) return;
+        fail(request, `Could not retry ${request.fileName}: ${error instanceof Error ? error.message : 'decoding failed'}`);
+      });
+  }
+
+  function abandonIndexRecovery(message: string): void {
+    const reason = indexRecovery!;
+    indexRecovery = null;
+    for (const request of [...inFlight.values()]) fail(request.message, message);
+    for (const key of [...pending.keys()]) failPending(key, message);
+    onMessage({ type: 'recovery', worker: 'index', status: 'failed', reason });
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = Date.now();
+    if (now - lastSeen.index > HEARTBEAT_TIMEOUT_MS.index) {
+      restartIndexWorker('The AI engine stopped responding');
+    } else if (now - lastSeen.asr > HEARTBEAT_TIMEOUT_MS.asr) {
+      restartAsrWorker('Speech recognition stopped responding');
+    }
+    if (stopped) return;
+    sendToIndex({ type: 'ping' });
+    sendToAsr({ type: 'ping' });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return {
+    postMessage(message) {
+      if (stopped) {
+        if (hasRequestId(message)) fail(message, 'The AI engine has stopped. Please refresh the page.');
+        return;
+      }
+      if (hasRequestId(message)) {
+        const stored: StoredRequest = message.type === 'transcribe' ? withoutSamples(message) : message;
+        inFlight.set(message.requestId!, { message: stored, retried: false });
+      }
+      if (isTracked(message)) pending.set(pendingKey(message), { message, retried: false });
+      sendToIndex(message);
+    },
+    terminate: stop,
+  };
+}
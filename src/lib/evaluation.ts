@@ -0,0 +1,184 @@
+/**
+ * InsightCast Search Evaluation
+ *
+ * Scores the search pipeline against hand-labelled queries: each query
+ * names the time spans of the transcript that answer it, and a result is
+ * relevant when its segment overlaps one of those spans. Reports
+ * recall@k, MRR and nDCG@k so ranking changes can be compared by numbers.
+ */
+
+import { insertMultiple } from '@orama/orama';
+import type { RankingOverrides, SearchResult, TranscriptSegment } from '../types';
+import { createSearchIndex, buildDocuments, searchDocuments, type EmbedText } from './search';
+import type { CrossEncode } from './ranking';
+
+export interface EvalTarget {
+  /** Span start in seconds */
+  start: number;
+  /** Span end in seconds */
+  end: number;
+}
+
+export interface EvalQuery {
+  id: string;
+  query: string;
+  /** Spans holding the expected answer; finding any part of one counts */
+  targets: EvalTarget[];
+  /** Why the query is in the suite */
+  note?: string;
+}
+
+/**
+ * Query file format: the transcript path is relative to the query file.
+ */
+export interface EvalSuite {
+  transcript: string;
+  queries: EvalQuery[];
+}
+
+export interface QueryEvaluation {
+  id: string;
+  query: string;
+  /** 1-based rank of the first relevant result, null when none was returned */
+  firstRelevantRank: number | null;
+  /** Share of targets found within the top k, per k */
+  recall: Record<number, number>;
+  reciprocalRank: number;
+  ndcg: number;
+  results: SearchResult[];
+}
+
+export interface EvaluationReport {
+  /** Cut-offs recall is reported at; nDCG uses the largest */
+  k: number[];
+  queries: QueryEvaluation[];
+  /** Mean recall@k over all queries */
+  recall: Record<number, number>;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface EvaluateOptions {
+  segments: TranscriptSegment[];
+  queries: EvalQuery[];
+  embed: EmbedText;
+  /** Embedding size of `embed`, which sizes the index */
+  dimensions: number;
+  k?: number[];
+  /** Ranking stages to change, to compare against the defaults */
+  ranking?: RankingOverrides;
+  /** Cross-encoder to rerank with, as the worker does when reranking is on */
+  crossEncode?: CrossEncode;
+}
+
+const EVAL_EPISODE_ID = 'eval';
+const DEFAULT_K = [1, 3, 5, 10];
+
+function overlaps(result: SearchResult, target: EvalTarget): boolean {
+  return result.segment.start < target.end && result.segment.end > target.start;
+}
+
+/**
+ * For each ranked result, the index of the first target it newly covers,
+ * or -1. A target is credited once, however many results overlap it.
+ */
+function creditTargets(results: SearchResult[], targets: EvalTarget[]): number[] {
+  const found = new Set<number>();
+  return results.map((result) => {
+    const index = targets.findIndex((target, i) => !found.has(i) && overlaps(result, target));
+    if (index !== -1) found.add(index);
+    return index;
+  });
+}
+
+/**
+ * Score one ranked result list against the query's targets.
+ */
+export function scoreQuery(query: EvalQuery, results: SearchResult[], k: number[] = DEFAULT_K): QueryEvaluation {
+  const credited = creditTargets(results, query.targets);
+  const relevantIndex = results.findIndex((result) => query.targets.some((target) => overlaps(result, target)));
+  const firstRelevantRank = relevantIndex === -1 ? null : relevantIndex + 1;
+
+  const recall: Record<number, number> = {};
+  for (const cutoff of k) {
+    const hits = credited.slice(0, cutoff).filter((index) => index !== -1).length;
+    recall[cutoff] = query.targets.length > 0 ? hits / query.targets.length : 0;
+  }
+
+  // Binary gains, each target credited once; the ideal ranking puts every target first
+  const depth = Math.max(...k);
+  const dcg = credited
+    .slice(0, depth)
+    .reduce((sum, index, rank) => sum + (index === -1 ? 0 : 1 / Math.log2(rank + 2)), 0);
+  let idcg = 0;
+  for (let rank = 0; rank < Math.min(query.targets.length, depth); rank++) {
+    idcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    id: query.id,
+    query: query.query,
+    firstRelevantRank,
+    recall,
+    reciprocalRank: firstRelevantRank ? 1 / firstRelevantRank : 0,
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+    results,
+  };
+}
+
+/**
+ * Index `segments` the way the worker does, run every query through the
+ * same search pipeline and score the rankings.
+ */
+export async function evaluateSearch({ segments, queries, embed, dimensions, k = DEFAULT_K, ranking, crossEncode }: EvaluateOptions): Promise<EvaluationReport> {
+  const db = await createSearchIndex(dimensions);
+  const documents = await buildDocuments(EVAL_EPISODE_ID, segments, embed, dimensions);
+  await insertMultiple(db, documents);
+
+  const limit = Math.max(...k);
+  const evaluations: QueryEvaluation[] = [];
+  for (const query of queries) {
+    const results = await searchDocuments(db, query.query, await embed(query.query), { limit, ranking, crossEncode });
+    evaluations.push(scoreQuery(query, results, k));
+  }
+
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const recall: Record<number, number> = {};
+  for (const cutoff of k) {
+    recall[cutoff] = mean(evaluations.map((evaluation) => evaluation.recall[cutoff] ?? 0));
+  }
+
+  return {
+    k,
+    queries: evaluations,
+    recall,
+    mrr: mean(evaluations.map((evaluation) => evaluation.reciprocalRank)),
+    ndcg: mean(evaluations.map((evaluation) => evaluation.ndcg)),
+  };
+}
+
+/**
+ * Plain-text table of a report, one row per query plus the means.
+ */
+export function formatReport(report: EvaluationReport): string {
+  const depth = Math.max(...report.k);
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`.padStart(5);
+  const header = ['Query'.padEnd(12), ...report.k.map((k) => `R@${k}`.padStart(5)), '  RR  ', `nDCG@${depth}`, ' First'].join(' ');
+
+  const rows = report.queries.map((evaluation) => [
+    evaluation.id.slice(0, 12).padEnd(12),
+    ...report.k.map((k) => percent(evaluation.recall[k] ?? 0)),
+    evaluation.reciprocalRank.toFixed(2).padStart(6),
+    evaluation.ndcg.toFixed(2).padStart(7),
+    (evaluation.firstRelevantRank?.toString() ?? '-').padStart(6),
+  ].join(' '));
+
+  const summary = [
+    'Mean'.padEnd(12),
+    ...report.k.map((k) => percent(report.recall[k] ?? 0)),
+    report.mrr.toFixed(2).padStart(6),
+    report.ndcg.toFixed(2).padStart(7),
+  ].join(' ');
+
+  return [header, '-'.repeat(header.length), ...rows, '-'.repeat(header.length), summary].join('\n');
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { Episode, SearchResult, TranscriptSegment } from '../types';
+import { buildExport, toSrt, toWebVtt, toWebVttChapters, type ExportFormat } from './export';
+import { parseTranscript } from './import';
+
+const segments: TranscriptSegment[] = [
+  { id: 's1', start: 0, end: 1.5, text: ' Welcome back. ', speaker: 'S0' },
+  { id: 's2', start: 3661.9996, end: 3725.25, text: 'Line one\n\nline --> two', speaker: 'S1' },
+];
+
+const episode: Episode = {
+  id: 'e1',
+  fileName: 'Show: 12/05/2024.mp3',
+  duration: 3725.25,
+  createdAt: 0,
+  segments,
+  speakerNames: { S0: 'Anna' },
+  chapters: [
+    { start: 0, end: 60, title: 'Intro', summary: 'Hello.' },
+    { start: 60, end: 3725.25, title: 'Main --> part', summary: 'The rest.' },
+  ],
+};
+
+describe('toSrt', () => {
+  it('numbers cues, writes comma milliseconds, names speakers and keeps each payload on one line', () => {
+    expect(toSrt(segments, episode.speakerNames)).toBe([
+      '1',
+      '00:00:00,000 --> 00:00:01,500',
+      'Anna: Welcome back.',
+      '',
+      '2',
+      '01:01:02,000 --> 01:02:05,250',
+      'Speaker 1: Line one line --> two',
+      '',
+    ].join('\n'));
+  });
+
+  it('reads back as the same segments', () => {
+    const parsed = parseTranscript(toSrt(segments, episode.speakerNames), 'roundtrip.srt');
+    expect(parsed.map(({ start, end, text }) => ({ start, end, text }))).toEqual([
+      { start: 0, end: 1.5, text: 'Anna: Welcome back.' },
+      { start: 3662, end: 3725.25, text: 'Speaker 1: Line one line --> two' },
+    ]);
+  });
+});
+
+describe('toWebVtt', () => {
+  it('writes dot milliseconds, voice spans and keeps each payload on one line', () => {
+    expect(toWebVtt(segments, episode.speakerNames)).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:01.500',
+      '<v Anna>Welcome back.',
+      '',
+      '01:01:02.000 --> 01:02:05.250',
+      '<v Speaker 1>Line one line -> two',
+      '',
+    ].join('\n'));
+  });
+
+  it('reads back as the same segments', () => {
+    const parsed = parseTranscript(toWebVtt(segments, episode.speakerNames), 'roundtrip.vtt');
+    expect(parsed.map(({ start, end, speaker }) => ({ start, end, speaker }))).toEqual([
+      { start: 0, end: 1.5, speaker: 'Anna' },
+      { start: 3662, end: 3725.25, speaker: 'Speaker 1' },
+    ]);
+  });
+});
+
+describe('toWebVttChapters', () => {
+  it('writes one titled cue per chapter', () => {
+    expect(toWebVttChapters(episode.chapters ?? [])).toBe([
+      'WEBVTT',
+      '',
+      'chapter-1',
+      '00:00:00.000 --> 00:01:00.000',
+      'Intro',
+      '',
+      'chapter-2',
+      '00:01:00.000 --> 01:02:05.250',
+      'Main -> part',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('buildExport', () => {
+  const highlights = {
+    query: 'welcome',
+    results: [
+      { episodeId: 'e1', segment: segments[1], score: 0.5 },
+      { episodeId: 'e1', segment: segments[0], score: 0.9 },
+    ] as SearchResult[],
+  };
+
+  it.each<[ExportFormat, boolean, string, string]>([
+    ['srt', false, 'Show- 12-05-2024.srt', 'application/x-subrip'],
+    ['vtt', true, 'Show- 12-05-2024-highlights.vtt', 'text/vtt'],
+    ['chapters', true, 'Show- 12-05-2024-chapters.vtt', 'text/vtt'],
+    ['json', false, 'Show- 12-05-2024.json', 'application/json'],
+    ['markdown', true, 'Show- 12-05-2024-highlights.md', 'text/markdown'],
+    ['text', false, 'Show- 12-05-2024.txt', 'text/plain'],
+  ])('names a %s export (highlights: %s) %s', (format, withHighlights, fileName, mimeType) => {
+    const file = buildExport(episode, null, { format, includeTimestamps: false, ...(withHighlights ? { highlights } : {}) });
+    expect(file).toMatchObject({ fileName, mimeType });
+  });
+
+  it('exports highlights in playback order', () => {
+    const { content } = buildExport(episode, null, { format: 'text', includeTimestamps: true, highlights });
+    expect(content).toBe('[0:00] Anna: Welcome back.\n[1:01:01] Speaker 1: Line one\n\nline --> two\n');
+  });
+
+  it('puts chapter headings before their first segment in Markdown', () => {
+    const { content } = buildExport(episode, null, { format: 'markdown', includeTimestamps: false });
+    expect(content).toContain('## Chapters\n\n- **[0:00] Intro** – Hello.\n- **[1:00] Main --> part** – The rest.\n');
+    expect(content).toContain('## Intro\n\n**Anna:** Welcome back.\n');
+    expect(content).toContain('## Main --> part\n\n**Speaker 1:** Line one');
+  });
+
+  it('scores highlights in Markdown', () => {
+    const { content } = buildExport(episode, null, { format: 'markdown', includeTimestamps: false, highlights });
+    expect(content).toContain('*Search: "welcome" · 2 moments*');
+    expect(content).toContain('- Anna: Welcome back. *(90% match)*');
+  });
+
+  it('exports the full transcript or the highlights as JSON', () => {
+    const full = JSON.parse(buildExport(episode, null, { format: 'json', includeTimestamps: false }).content);
+    expect(full.segments).toHaveLength(2);
+    expect(full.episode).toMatchObject({ id: 'e1', speakerNames: { S0: 'Anna' }, chapters: episode.chapters });
+
+    const partial = JSON.parse(buildExport(episode, null, { format: 'json', includeTimestamps: false, highlights }).content);
+    expect(partial.segments).toBeUndefined();
+    expect(partial.highlights.map((hit: { id: string; score: number }) => [hit.id, hit.score])).toEqual([['s1', 0.9], ['s2', 0.5]]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * InsightCast Transcript Export
+ *
+ * Turns an episode (or just the current search hits) into subtitle,
+ * JSON, Markdown or plain-text files, plus WebVTT chapter tracks, and
+ * hands them to the browser.
+ */
+
+import type { Chapter, Episode, ModelInfo, SearchResult, TranscriptSegment } from '../types';
+import { getSpeakerLabel } from './speakers';
+import { formatClock } from './time';
+
+export type ExportFormat = 'srt' | 'vtt' | 'chapters' | 'json' | 'markdown' | 'text';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Prefix Markdown and plain-text lines with their start time */
+  includeTimestamps: boolean;
+  /** Export only these search hits instead of the full transcript */
+  highlights?: {
+    query: string;
+    results: SearchResult[];
+  };
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+  chapters: { extension: 'vtt', mimeType: 'text/vtt' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+};
+
+/**
+ * Build the export file for an episode.
+ */
+export function buildExport(episode: Episode, models: ModelInfo | null, options: ExportOptions): ExportFile {
+  const { format, includeTimestamps } = options;
+  // A chapter track always covers the whole episode
+  const highlights = format === 'chapters' ? undefined : options.highlights;
+  // Highlights are exported in playback order so subtitle cues stay sequential
+  const hits = highlights
+    ? [...highlights.results].sort((a, b) => a.segment.start - b.segment.start)
+    : null;
+  const segments = hits ? hits.map((hit) => hit.segment) : episode.segments;
+  const { speakerNames } = episode;
+
+  let content: string;
+  switch (format) {
+    case 'srt':
+      content = toSrt(segments, speakerNames);
+      break;
+    case 'vtt':
+      content = toWebVtt(segments, speakerNames);
+      break;
+    case 'chapters':
+      content = toWebVttChapters(episode.chapters ?? []);
+      break;
+    case 'json':
+      content = toJson(episode, models, highlights && hits ? { query: highlights.query, results: hits } : undefined);
+      break;
+    case 'markdown':
+      content = hits && highlights
+        ? highlightsToMarkdown(episode, highlights.query, hits, includeTimestamps)
+        : toMarkdown(episode, includeTimestamps);
+      break;
+    case 'text':
+      content = toPlainText(segments, includeTimestamps, speakerNames);
+      break;
+  }
+
+  const { extension, mimeType } = FORMAT_DETAILS[format];
+  const suffix = format === 'chapters' ? '-chapters' : highlights ? '-highlights' : '';
+  const baseName = toBaseName(episode.fileName) + suffix;
+
+  return { fileName: `${baseName}.${extension}`, mimeType, content };
+}
+
+/**
+ * Save an export through a temporary object URL.
+ */
+export function downloadExport(file: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function toSrt(segments: TranscriptSegment[], speakerNames?: Episode['speakerNames']): string {
+  return segments
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}`,
+      // A blank line in the payload would end the cue
+      speakerPrefix(segment, speakerNames) + segment.text.trim().replace(/\n+/g, ' '),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toWebVtt(segments: TranscriptSegment[], speakerNames?: Episode['speakerNames']): string {
+  const cues = segments.map((segment) => [
+    `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}`,
+    // Voice spans carry the speaker; a blank line or "-->" in the payload would end or corrupt the cue
+    (segment.speaker ? `<v ${getSpeakerLabel(speakerNames, segment.speaker)}>` : '')
+      + segment.text.trim().replace(/\n+/g, ' ').replace(/-->/g, '->'),
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * WebVTT chapter track (`<track kind="chapters">`): one cue per chapter, titled.
+ */
+export function toWebVttChapters(chapters: Chapter[]): string {
+  const cues = chapters.map((chapter, index) => [
+    `chapter-${index + 1}`,
+    `${formatCueTime(chapter.start, '.')} --> ${formatCueTime(chapter.end, '.')}`,
+    chapter.title.replace(/\n+/g, ' ').replace(/-->/g, '->'),
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+function toJson(
+  episode: Episode,
+  models: ModelInfo | null,
+  highlights?: { query: string; results: SearchResult[] }
+): string {
+  const document = {
+    exportedAt: new Date().toISOString(),
+    models,
+    episode: {
+      id: episode.id,
+      fileName: episode.fileName,
+      duration: episode.duration,
+      createdAt: new Date(episode.createdAt).toISOString(),
+      speakerNames: episode.speakerNames ?? {},
+      ...(episode.language ? { language: episode.language } : {}),
+      ...(episode.chapters ? { chapters: episode.chapters } : {}),
+    },
+    ...(highlights
+      ? {
+          query: highlights.query,
+          highlights: highlights.results.map(({ segment, score }) => ({ ...segment, score })),
+        }
+      : { segments: episode.segments }),
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+function toMarkdown(episode: Episode, includeTimestamps: boolean): string {
+  const chapters = episode.chapters ?? [];
+  let nextChapter = 0;
+
+  const lines = [
+    `# ${episode.fileName}`,
+    '',
+    `*${formatClock(episode.duration)} · ${episode.segments.length} segments*`,
+    '',
+    ...(chapters.length > 0
+      ? [
+          '## Chapters',
+          '',
+          ...chapters.map((chapter) => `- **[${formatClock(chapter.start)}] ${chapter.title}** – ${chapter.summary.trim()}`),
+          '',
+        ]
+      : []),
+    ...episode.segments.map((segment) => {
+      // Each chapter heading goes before the first segment that starts inside it
+      let heading = '';
+      while (nextChapter < chapters.length && segment.start >= (chapters[nextChapter]?.start ?? Infinity)) {
+        heading = `## ${chapters[nextChapter]?.title}\n\n`;
+        nextChapter++;
+      }
+      const time = includeTimestamps ? `**[${formatClock(segment.start)}]** ` : '';
+      const speaker = segment.speaker ? `**${getSpeakerLabel(episode.speakerNames, segment.speaker)}:** ` : '';
+      return `${heading}${time}${speaker}${segment.text.trim()}\n`;
+    }),
+  ];
+
+  return lines.join('\n');
+}
+
+function highlightsToMarkdown(
+  episode: Episode,
+  query: string,
+  results: SearchResult[],
+  includeTimestamps: boolean
+): string {
+  const lines = [
+    `# Highlights: ${episode.fileName}`,
+    '',
+    `*Search: "${query}" · ${results.length} moments*`,
+    '',
+    ...results.map(({ segment, score }) => {
+      const time = includeTimestamps
+        ? `**[${formatClock(segment.start)} – ${formatClock(segment.end)}]** `
+        : '';
+      return `- ${time}${speakerPrefix(segment, episode.speakerNames)}${segment.text.trim()} *(${(score * 100).toFixed(0)}% match)*`;
+    }),
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+function toPlainText(segments: TranscriptSegment[], includeTimestamps: boolean, speakerNames?: Episode['speakerNames']): string {
+  return segments
+    .map((segment) => {
+      const time = includeTimestamps ? `[${formatClock(segment.start)}] ` : '';
+      return time + speakerPrefix(segment, speakerNames) + segment.text.trim();
+    })
+    .join('\n') + '\n';
+}
+
+function speakerPrefix(segment: TranscriptSegment, speakerNames?: Episode['speakerNames']): string {
+  return segment.speaker ? `${getSpeakerLabel(speakerNames, segment.speaker)}: ` : '';
+}
+
+/**
+ * Subtitle timestamp: HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT.
+ * Works on whole milliseconds so rounding never produces ",1000".
+ */
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round((isFinite(seconds) ? seconds : 0) * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}${separator}${pad(ms, 3)}`;
+}
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, '0');
+}
+
+/**
+ * File name without extension or characters that filesystems reject
+ * (recordings are named after their locale date, which may contain slashes).
+ */
+function toBaseName(fileName: string): string {
+  return fileName
+    .replace(/\.[^./\\]+$/, '')
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .trim() || 'transcript';
+}
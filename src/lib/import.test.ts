@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { isTranscriptFile, parseTranscript } from './import';
+
+/** Segments without their generated IDs */
+const parse = (content: string, fileName: string) =>
+  parseTranscript(content, fileName).map(({ id: _id, ...segment }) => segment);
+
+describe('parseTranscript', () => {
+  it('reads SRT cues', () => {
+    const srt = [
+      '1',
+      '00:00:01,500 --> 00:00:04,000',
+      'Hello <i>there</i>,',
+      'and welcome.',
+      '',
+      '2',
+      '01:02:03,04 --> 01:02:05,000',
+      'Tom &amp; Jerry',
+    ].join('\r\n');
+    expect(parse(srt, 'episode.srt')).toEqual([
+      { start: 1.5, end: 4, text: 'Hello there, and welcome.' },
+      { start: 3723.04, end: 3725, text: 'Tom & Jerry' },
+    ]);
+  });
+
+  it('reads WebVTT cues with voice spans, skipping notes and styles', () => {
+    const vtt = [
+      '﻿WEBVTT',
+      '',
+      'NOTE exported by hand',
+      '',
+      'STYLE',
+      '::cue { color: white }',
+      '',
+      'intro',
+      '00:05.250 --> 00:07.000 align:start',
+      '<v.loud Anna Smith>Hi everyone</v>',
+      '',
+      '01:00:00.000 --> 01:00:02.000',
+      'Later on',
+    ].join('\n');
+    expect(parse(vtt, 'episode.vtt')).toEqual([
+      { start: 5.25, end: 7, text: 'Hi everyone', speaker: 'Anna Smith' },
+      { start: 3600, end: 3602, text: 'Later on' },
+    ]);
+  });
+
+  it.each<[string, string]>([
+    ['a bare array', JSON.stringify([{ start: 0, end: 2, text: ' Hi ', speaker: 'S0' }])],
+    ['an InsightCast export', JSON.stringify({ episode: {}, segments: [{ start: 0, end: 2, text: 'Hi', speaker: 'S0' }] })],
+    ['Transformers.js chunks', JSON.stringify({ text: 'Hi', chunks: [{ timestamp: [0, 2], text: 'Hi', speaker: 'S0' }] })],
+  ])('reads JSON as %s', (_, json) => {
+    expect(parse(json, 'episode.json')).toEqual([{ start: 0, end: 2, text: 'Hi', speaker: 'S0' }]);
+  });
+
+  it('keeps valid word timings from JSON', () => {
+    const json = JSON.stringify([{
+      start: 0, end: 2, text: 'Hi all',
+      words: [{ word: ' Hi', start: 0, end: 0.5 }, { text: 'all', start: 0.5, end: 1 }, { word: '', start: 1, end: 2 }, { text: 'x' }],
+    }]);
+    expect(parse(json, 'episode.json')[0]?.words).toEqual([
+      { text: 'Hi', start: 0, end: 0.5 },
+      { text: 'all', start: 0.5, end: 1 },
+    ]);
+  });
+
+  it('sorts by start, drops empty or untimed segments and mends a missing end', () => {
+    const json = JSON.stringify([
+      { start: 5, text: 'second' },
+      { start: 1, end: 2, text: 'first' },
+      { start: 3, end: 4, text: '   ' },
+      { start: 'soon', end: 4, text: 'untimed' },
+      { end: 4, text: 'no start' },
+      { start: 1, end: 2 },
+    ]);
+    expect(parse(json, 'episode.json')).toEqual([
+      { start: 1, end: 2, text: 'first' },
+      { start: 5, end: 5, text: 'second' },
+    ]);
+  });
+
+  it.each<[string, string]>([
+    ['WebVTT', 'WEBVTT\n\n00:01.000 --> 00:02.000\nHi'],
+    ['JSON', '[{"start":1,"end":2,"text":"Hi"}]'],
+    ['SRT', '1\n00:00:01,000 --> 00:00:02,000\nHi'],
+  ])('recognizes %s without a known extension', (_, content) => {
+    expect(parse(content, 'transcript.txt')).toEqual([{ start: 1, end: 2, text: 'Hi' }]);
+  });
+
+  it('gives segments unique IDs', () => {
+    const segments = parseTranscript('[{"start":0,"text":"a"},{"start":1,"text":"b"}]', 'a.json');
+    expect(new Set(segments.map((segment) => segment.id)).size).toBe(2);
+  });
+
+  it.each<[string, string, string]>([
+    ['{"start": 1', 'broken.json', 'Transcript is not valid JSON'],
+    ['{"items": []}', 'other.json', 'JSON transcript must be an array of segments or contain "segments" or "chunks"'],
+    ['WEBVTT\n\nNOTE nothing here', 'empty.vtt', 'No transcript segments found in empty.vtt'],
+  ])('rejects %j', (content, fileName, message) => {
+    expect(() => parseTranscript(content, fileName)).toThrow(message);
+  });
+});
+
+describe('isTranscriptFile', () => {
+  it.each<[string, boolean]>([
+    ['talk.SRT', true],
+    ['talk.vtt', true],
+    ['talk.json', true],
+    ['talk.mp3', false],
+  ])('%s: %s', (name, expected) => {
+    expect(isTranscriptFile(new File([''], name))).toBe(expected);
+  });
+});
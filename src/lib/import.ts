@@ -0,0 +1,179 @@
+/**
+ * InsightCast Transcript Import
+ *
+ * Parses existing captions (SRT, WebVTT) and JSON transcripts into
+ * TranscriptSegment[] so episodes that already ship with a transcript
+ * can skip Whisper and go straight to embedding and indexing.
+ */
+
+import type { TranscriptSegment, TranscriptWord } from '../types';
+
+export const TRANSCRIPT_EXTENSIONS = ['srt', 'vtt', 'json'];
+
+type TranscriptFormat = 'srt' | 'vtt' | 'json';
+
+// [HH:]MM:SS(,|.)mmm - SRT uses a comma, WebVTT a dot and may omit the hours
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const VOICE_TAG = /<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+export function isTranscriptFile(file: File): boolean {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  return ext !== undefined && TRANSCRIPT_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Parse a transcript file's contents.
+ * Throws when the file holds no usable segments.
+ */
+export function parseTranscript(content: string, fileName: string): TranscriptSegment[] {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format = detectFormat(text, fileName);
+
+  const parsed = format === 'json' ? parseJson(text) : parseCues(text);
+  const idPrefix = `seg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+  const segments = parsed
+    .filter((segment) => segment.text.length > 0 && isFinite(segment.start))
+    .sort((a, b) => a.start - b.start)
+    .map((segment, index) => ({
+      id: `${idPrefix}_${index}`,
+      start: segment.start,
+      end: Math.max(segment.start, isFinite(segment.end) ? segment.end : segment.start),
+      text: segment.text,
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+      ...(segment.words ? { words: segment.words } : {}),
+    }));
+
+  if (segments.length === 0) {
+    throw new Error(`No transcript segments found in ${fileName}`);
+  }
+  return segments;
+}
+
+function detectFormat(text: string, fileName: string): TranscriptFormat {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'json') return ext;
+
+  const head = text.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  return 'srt';
+}
+
+/**
+ * SRT and WebVTT share the same cue shape: an optional identifier line,
+ * a "start --> end" timing line, then the text lines up to a blank line.
+ */
+function parseCues(text: string): Omit<TranscriptSegment, 'id'>[] {
+  const segments: Omit<TranscriptSegment, 'id'>[] = [];
+
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    // Header, NOTE, STYLE and REGION blocks have no timing line
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = (lines[timingIndex] ?? '').split('-->');
+    const start = parseCueTime(startPart ?? '');
+    const end = parseCueTime(endPart ?? '');
+    if (start === null || end === null) continue;
+
+    const payload = lines.slice(timingIndex + 1).join(' ');
+    // WebVTT voice spans (<v Name>) name the speaker
+    const voice = VOICE_TAG.exec(payload)?.[1]?.trim();
+    segments.push({ start, end, text: cleanCueText(payload), ...(voice ? { speaker: voice } : {}) });
+  }
+  return segments;
+}
+
+function parseCueTime(value: string): number | null {
+  const match = CUE_TIME.exec(value);
+  if (!match) return null;
+
+  const [, h, m, s, ms] = match;
+  return Number(h ?? 0) * 3600 + Number(m) * 60 + Number(s) + Number((ms ?? '0').padEnd(3, '0')) / 1000;
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[a-z#0-9]+;/gi, (entity) => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Accepts a bare array of segments or an object holding one under
+ * `segments` (InsightCast and Whisper-style exports) or `chunks`
+ * (Transformers.js output, with `timestamp: [start, end]`).
+ */
+function parseJson(text: string): Omit<TranscriptSegment, 'id'>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Transcript is not valid JSON');
+  }
+
+  const items: unknown[] | null = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.segments)
+      ? data.segments
+      : isRecord(data) && Array.isArray(data.chunks)
+        ? data.chunks
+        : null;
+
+  if (!items) {
+    throw new Error('JSON transcript must be an array of segments or contain "segments" or "chunks"');
+  }
+
+  return items.flatMap((item) => {
+    if (!isRecord(item) || typeof item.text !== 'string') return [];
+
+    const { timestamp } = item;
+    const [start, end] = Array.isArray(timestamp)
+      ? [Number(timestamp[0]), Number(timestamp[1] ?? timestamp[0])]
+      : [Number(item.start), Number(item.end ?? item.start)];
+    const speaker = typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : undefined;
+    const words = Array.isArray(item.words) ? parseWords(item.words) : [];
+
+    return [{
+      start,
+      end,
+      text: item.text.trim(),
+      ...(speaker ? { speaker } : {}),
+      ...(words.length > 0 ? { words } : {}),
+    }];
+  });
+}
+
+/**
+ * Word timings as `{ text | word, start, end }`, the shape InsightCast
+ * and Whisper-style JSON both use.
+ */
+function parseWords(items: unknown[]): TranscriptWord[] {
+  return items.flatMap((item) => {
+    if (!isRecord(item)) return [];
+
+    const text = typeof item.text === 'string' ? item.text : item.word;
+    const start = Number(item.start);
+    const end = Number(item.end ?? item.start);
+    if (typeof text !== 'string' || !text.trim() || !isFinite(start) || !isFinite(end)) return [];
+
+    return [{ text: text.trim(), start, end }];
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
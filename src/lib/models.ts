@@ -0,0 +1,105 @@
+/**
+ * InsightCast Model Catalog
+ *
+ * The speech and embedding models the settings panel offers, shared by
+ * the UI and the worker so both agree on IDs, dimensions and defaults.
+ */
+
+import type { ModelDtype, ModelSettings } from '../types';
+
+export interface AsrModelOption {
+  id: string;
+  label: string;
+  /** Multilingual checkpoints accept a language; `.en` ones are English-only */
+  multilingual: boolean;
+}
+
+export interface EmbedderModelOption {
+  id: string;
+  label: string;
+  /** Size of the embedding vectors, which sets the Orama `vector[N]` schema */
+  dimensions: number;
+}
+
+// Only the _timestamped exports carry the cross-attentions needed for word timings
+export const ASR_MODELS: AsrModelOption[] = [
+  { id: 'onnx-community/whisper-tiny.en_timestamped', label: 'Whisper Tiny (English)', multilingual: false },
+  { id: 'onnx-community/whisper-tiny_timestamped', label: 'Whisper Tiny (Multilingual)', multilingual: true },
+  { id: 'onnx-community/whisper-base.en_timestamped', label: 'Whisper Base (English)', multilingual: false },
+  { id: 'onnx-community/whisper-base_timestamped', label: 'Whisper Base (Multilingual)', multilingual: true },
+  { id: 'onnx-community/whisper-small.en_timestamped', label: 'Whisper Small (English)', multilingual: false },
+  { id: 'onnx-community/whisper-small_timestamped', label: 'Whisper Small (Multilingual)', multilingual: true },
+];
+
+export const EMBEDDER_MODELS: EmbedderModelOption[] = [
+  { id: 'Xenova/all-MiniLM-L6-v2', label: 'MiniLM L6 (fast)', dimensions: 384 },
+  { id: 'Xenova/bge-small-en-v1.5', label: 'BGE Small (English)', dimensions: 384 },
+  { id: 'Xenova/bge-base-en-v1.5', label: 'BGE Base (English, accurate)', dimensions: 768 },
+  { id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2', label: 'Multilingual MiniLM L12', dimensions: 384 },
+];
+
+/** Extractive question answering model for Ask mode, loaded on first use */
+export const QA_MODEL = 'Xenova/distilbert-base-cased-distilled-squad';
+
+/** Abstractive summarizer for chapter titles and summaries, loaded on first use */
+export const SUMMARIZER_MODEL = 'Xenova/distilbart-cnn-6-6';
+
+/** MS MARCO cross-encoder used to rerank search candidates */
+export const RERANKER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+export const DTYPE_OPTIONS: { value: ModelDtype; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'fp32', label: 'Full precision (fp32)' },
+  { value: 'fp16', label: 'Half precision (fp16)' },
+  { value: 'q8', label: '8-bit (q8)' },
+  { value: 'q4', label: '4-bit (q4)' },
+];
+
+/** Spoken languages offered for multilingual Whisper models, as Whisper language codes */
+export const ASR_LANGUAGES = [
+  'en', 'es', 'fr', 'de', 'it', 'pt', 'nl', 'pl', 'ru', 'tr', 'ar', 'hi', 'ja', 'ko', 'zh',
+];
+
+/** `language` setting that lets Whisper detect the spoken language */
+export const AUTO_LANGUAGE = 'auto';
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  asrModel: 'onnx-community/whisper-base_timestamped',
+  asrDtype: 'auto',
+  embedderModel: 'Xenova/all-MiniLM-L6-v2',
+  embedderDtype: 'auto',
+  device: 'auto',
+  language: AUTO_LANGUAGE,
+  detectPerWindow: false,
+  translate: false,
+  reranker: false,
+  parallelEmbedding: false,
+};
+
+/**
+ * Episodes persisted before the embedder was configurable used this model.
+ */
+export const LEGACY_EMBEDDER_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+export function getAsrModel(id: string): AsrModelOption | undefined {
+  return ASR_MODELS.find((model) => model.id === id);
+}
+
+export function getEmbedderModel(id: string): EmbedderModelOption | undefined {
+  return EMBEDDER_MODELS.find((model) => model.id === id);
+}
+
+const languageNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(['en'], { type: 'language' })
+  : null;
+
+/**
+ * English name of a language code (`es` -> "Spanish"), or the code itself.
+ */
+export function getLanguageLabel(code: string): string {
+  try {
+    return languageNames?.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Episode } from '../types';
+import { containsPhrase, matchesConstraints, parseQuery, resolveSpeakers, toConstraints, type ParsedQuery } from './query';
+
+describe('parseQuery', () => {
+  it.each<[string, Partial<ParsedQuery>]>([
+    ['budget planning', { text: 'budget planning', required: [], excluded: [] }],
+    ['"exact phrase" here', { text: 'exact phrase here', required: [['exact phrase']] }],
+    ['"unclosed phrase', { text: 'unclosed phrase', required: [['unclosed phrase']] }],
+    ['privacy -Facebook', { text: 'privacy', excluded: ['facebook'] }],
+    ['privacy -"social media"', { text: 'privacy', excluded: ['social media'] }],
+    ['privacy -', { text: 'privacy', excluded: [] }],
+    ['privacy -- data', { text: 'privacy data', excluded: [] }],
+    ['budget OR cost OR "price tag"', { text: 'budget cost price tag', required: [['budget', 'cost', 'price tag']] }],
+    ['OR budget', { text: 'budget', required: [] }],
+    ['budget or cost', { text: 'budget or cost', required: [] }],
+    ['"OR" gate', { text: 'OR gate', required: [['or']] }],
+    ['speaker:anna growth', { text: 'growth', speakers: ['anna'] }],
+    ['speaker:"Anna Smith"', { text: '', speakers: ['Anna Smith'] }],
+    ['after:12:30 before:1:05:00', { text: '', timeRange: { start: 750, end: 3900 } }],
+    ['after:90', { timeRange: { start: 90 } }],
+    ['AFTER:1:00', { timeRange: { start: 60 } }],
+    ['after:-10:00', { timeRange: { start: -600 } }],
+    ['before:-5:00 wrap up', { text: 'wrap up', timeRange: { end: -300 } }],
+  ])('parses %j', (query, expected) => {
+    expect(parseQuery(query)).toMatchObject(expected);
+  });
+
+  it.each<[string, string, string]>([
+    ['topic:ai', 'topic ai', 'Unknown operator "topic:", searched as text'],
+    ['-speaker:anna', '', '"-speaker:" isn\'t supported, filter ignored'],
+    ['after:noon', '', '"after:noon" isn\'t a time like 12:30 or -10:00, filter ignored'],
+    ['after:-soon', '', '"after:-soon" isn\'t a time like 12:30 or -10:00, filter ignored'],
+  ])('explains why %j was not applied', (query, text, hint) => {
+    const parsed = parseQuery(query);
+    expect(parsed.text).toBe(text);
+    expect(parsed.hints).toEqual([hint]);
+    expect(parsed.timeRange).toBeUndefined();
+  });
+});
+
+describe('toConstraints', () => {
+  it('is undefined for plain text', () => {
+    expect(toConstraints(parseQuery('just words'))).toBeUndefined();
+  });
+
+  it('collects required, excluded and speakers', () => {
+    const speakers = [{ episodeId: 'e1', speaker: 'S0' }];
+    expect(toConstraints(parseQuery('"a b" -c'), speakers)).toEqual({ required: [['a b']], excluded: ['c'], speakers });
+  });
+});
+
+describe('containsPhrase', () => {
+  it.each<[string, string, boolean]>([
+    ['We talked about the price tag.', 'price tag', true],
+    ['We talked about the PRICE, tag it.', 'price tag', true],
+    ['Pricing is hard', 'price', false],
+    ['anything', '', false],
+    ['anything', '!!', false],
+  ])('%j contains %j: %s', (text, phrase, expected) => {
+    expect(containsPhrase(text, phrase)).toBe(expected);
+  });
+});
+
+describe('matchesConstraints', () => {
+  const constraints = { required: [['budget', 'cost'], ['plan']], excluded: ['tax'] };
+
+  it.each<[string, boolean]>([
+    ['The budget plan', true],
+    ['A cost plan', true],
+    ['The budget', false],
+    ['The budget plan and tax', false],
+  ])('%j: %s', (text, expected) => {
+    expect(matchesConstraints(text, constraints)).toBe(expected);
+  });
+});
+
+describe('resolveSpeakers', () => {
+  const episode: Episode = {
+    id: 'e1',
+    fileName: 'talk.mp3',
+    duration: 10,
+    createdAt: 0,
+    speakerNames: { S0: 'Anna Smith' },
+    segments: [
+      { id: 's1', start: 0, end: 1, text: 'hi', speaker: 'S0' },
+      { id: 's2', start: 1, end: 2, text: 'hello', speaker: 'S1' },
+    ],
+  };
+
+  it.each<[string, string[]]>([
+    ['ann', ['S0']],
+    ['s1', ['S1']],
+    ['bob', []],
+  ])('finds %j', (name, speakers) => {
+    expect(resolveSpeakers([name], [episode]).map((ref) => ref.speaker)).toEqual(speakers);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * InsightCast Query Language
+ *
+ * Parses the search bar's small query syntax on the main thread:
+ *
+ *   "exact phrase"     results must contain the phrase
+ *   -term, -"phrase"   results must not contain it
+ *   a OR "b c"         results must contain at least one alternative
+ *   speaker:name       only segments spoken by a matching speaker
+ *   after:12:30        only segments after (or `before:`) a time
+ *   after:-10:00       the same, counted back from the end of each episode
+ *
+ * Everything else is free text for keyword and semantic search. The
+ * worker applies the parsed constraints with the same matcher.
+ */
+
+import type { Episode, QueryConstraints, SpeakerRef, TimeRange } from '../types';
+import { getSpeakers, getSpeakerLabel } from './speakers';
+import { parseClock } from './time';
+
+export interface ParsedQuery {
+  /** Free text handed to BM25 and the embedder, operators removed */
+  text: string;
+  /** Each group lists alternatives; a result must contain one from every group */
+  required: string[][];
+  /** Terms and phrases no result may contain */
+  excluded: string[];
+  /** Values of `speaker:` operators, matched against speaker names and IDs */
+  speakers: string[];
+  /** From `after:` / `before:` */
+  timeRange?: TimeRange;
+  /** Operators that couldn't be applied and were searched as plain text */
+  hints: string[];
+}
+
+interface Token {
+  negated: boolean;
+  field?: string;
+  value: string;
+  quoted: boolean;
+}
+
+const KNOWN_FIELDS = ['speaker', 'after', 'before'];
+
+// Optional "-", optional "field:", then a quoted phrase (closing quote optional) or a bare word
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [, negated, field, phrase, word] = match;
+    const value = (phrase ?? word ?? '').trim();
+    // A dash with nothing to negate is left over from editing, not a term
+    if (!value || (phrase === undefined && /^-+$/.test(value))) continue;
+    tokens.push({ negated: negated === '-', field: field?.toLowerCase(), value, quoted: phrase !== undefined });
+  }
+  return tokens;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { text: '', required: [], excluded: [], speakers: [], hints: [] };
+  const words: string[] = [];
+  // Positive terms in order; `join` ties a term to the one before it with OR
+  const terms: { value: string; quoted: boolean; join: boolean }[] = [];
+  let joinNext = false;
+
+  for (const token of tokenize(query)) {
+    if (token.field && !KNOWN_FIELDS.includes(token.field)) {
+      parsed.hints.push(`Unknown operator "${token.field}:", searched as text`);
+      words.push(token.field, token.value);
+      continue;
+    }
+
+    if (token.field && token.negated) {
+      parsed.hints.push(`"-${token.field}:" isn't supported, filter ignored`);
+      continue;
+    }
+
+    if (token.field === 'speaker') {
+      parsed.speakers.push(token.value);
+      continue;
+    }
+
+    if (token.field === 'after' || token.field === 'before') {
+      const fromEnd = token.value.startsWith('-');
+      const seconds = parseClock(fromEnd ? token.value.slice(1) : token.value);
+      if (seconds === null) {
+        parsed.hints.push(`"${token.field}:${token.value}" isn't a time like 12:30 or -10:00, filter ignored`);
+      } else {
+        // Negative bounds count from the end; the worker resolves them per episode
+        parsed.timeRange = { ...parsed.timeRange, [token.field === 'after' ? 'start' : 'end']: fromEnd ? -seconds : seconds };
+      }
+      continue;
+    }
+
+    if (token.value === 'OR' && !token.quoted) {
+      if (terms.length > 0) joinNext = true;
+      continue;
+    }
+
+    if (token.negated) {
+      parsed.excluded.push(token.value.toLowerCase());
+      continue;
+    }
+
+    terms.push({ value: token.value, quoted: token.quoted, join: joinNext });
+    words.push(token.value);
+    joinNext = false;
+  }
+
+  // OR chains terms into one group of alternatives
+  const groups: { value: string; quoted: boolean }[][] = [];
+  for (const term of terms) {
+    const last = groups[groups.length - 1];
+    if (term.join && last) last.push(term);
+    else groups.push([term]);
+  }
+
+  // A lone quoted phrase is required; with OR, every alternative in the group counts
+  for (const group of groups) {
+    if (group.length > 1 || group[0]?.quoted) {
+      parsed.required.push(group.map((term) => term.value.toLowerCase()));
+    }
+  }
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+/**
+ * Speakers of `episodes` whose ID or display name matches one of `names`
+ * (case-insensitive; names match on any part, `speaker:ann` finds "Anna").
+ */
+export function resolveSpeakers(names: string[], episodes: Episode[]): SpeakerRef[] {
+  const wanted = names.map((name) => name.toLowerCase());
+  return episodes.flatMap((episode) =>
+    getSpeakers(episode.segments)
+      .filter((speaker) => {
+        const label = getSpeakerLabel(episode.speakerNames, speaker).toLowerCase();
+        return wanted.some((name) => speaker.toLowerCase() === name || label.includes(name));
+      })
+      .map((speaker) => ({ episodeId: episode.id, speaker }))
+  );
+}
+
+/**
+ * Constraints for the worker, or undefined when the query has none.
+ */
+export function toConstraints(parsed: ParsedQuery, speakers?: SpeakerRef[]): QueryConstraints | undefined {
+  const constraints: QueryConstraints = {
+    ...(parsed.required.length > 0 ? { required: parsed.required } : {}),
+    ...(parsed.excluded.length > 0 ? { excluded: parsed.excluded } : {}),
+    ...(speakers ? { speakers } : {}),
+  };
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+}
+
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, ' ').trim()} `;
+}
+
+/**
+ * Whether `text` contains `phrase` as whole words, ignoring case and punctuation.
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  const needle = normalizeText(phrase);
+  return needle.trim() !== '' && normalizeText(text).includes(needle);
+}
+
+/**
+ * Whether a segment's text satisfies the required and excluded terms.
+ */
+export function matchesConstraints(text: string, constraints: QueryConstraints): boolean {
+  const required = constraints.required ?? [];
+  const excluded = constraints.excluded ?? [];
+  return required.every((group) => group.some((phrase) => containsPhrase(text, phrase)))
+    && !excluded.some((phrase) => containsPhrase(text, phrase));
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { IndexedDocument } from '../types';
+import {
+  buildRankingPipeline,
+  collapseSegmentsStage,
+  dedupeStage,
+  normalizeStage,
+  relevanceFloorStage,
+  resolveRanking,
+  runRankingPipeline,
+  type CrossEncode,
+  type RankedCandidate,
+  type RankingContext,
+} from './ranking';
+
+function candidate(id: string, score: number, document: Partial<IndexedDocument> = {}): RankedCandidate {
+  return {
+    document: {
+      id,
+      episodeId: 'episode',
+      segmentId: id,
+      text: `text of ${id}`,
+      fullSegmentText: `text of ${id}`,
+      start: 0,
+      end: 1,
+      embedding: [],
+      ...document,
+    },
+    retrievalScore: score,
+    score,
+  };
+}
+
+const context: RankingContext = { query: 'query', intents: ['general'], limit: 10 };
+const ids = (candidates: RankedCandidate[]) => candidates.map(({ document }) => document.id);
+
+describe('dedupeStage', () => {
+  it('keeps the first of two chunks opening the same way', async () => {
+    const stage = dedupeStage(10);
+    const ranked = await stage.run([
+      candidate('a', 0.9, { text: 'The same opening, then one ending' }),
+      candidate('b', 0.8, { text: 'the SAME opening, then another' }),
+      candidate('c', 0.7, { text: 'Something else entirely' }),
+    ], context);
+    expect(ids(ranked)).toEqual(['a', 'c']);
+  });
+});
+
+describe('collapseSegmentsStage', () => {
+  it('keeps the best chunk of each segment', async () => {
+    const ranked = await collapseSegmentsStage().run([
+      candidate('a', 0.5, { segmentId: 's1' }),
+      candidate('b', 0.9, { segmentId: 's1' }),
+      candidate('c', 0.7, { segmentId: 's2' }),
+    ], context);
+    expect(ids(ranked)).toEqual(['b', 'c']);
+  });
+
+  it('drops a window sharing a segment with a better one', async () => {
+    const ranked = await collapseSegmentsStage().run([
+      candidate('a', 0.9, { segmentId: 's1', segmentIds: ['s1', 's2'] }),
+      candidate('b', 0.8, { segmentId: 's2', segmentIds: ['s2', 's3'] }),
+      candidate('c', 0.7, { segmentId: 's3', segmentIds: ['s3'] }),
+    ], context);
+    expect(ids(ranked)).toEqual(['a', 'c']);
+  });
+
+  it('tells segments of different episodes apart', async () => {
+    const ranked = await collapseSegmentsStage().run([
+      candidate('a', 0.9, { episodeId: 'e1', segmentId: 's1' }),
+      candidate('b', 0.8, { episodeId: 'e2', segmentId: 's1' }),
+    ], context);
+    expect(ids(ranked)).toEqual(['a', 'b']);
+  });
+
+  it('returns at most `limit` results', async () => {
+    const candidates = ['a', 'b', 'c', 'd'].map((id, i) => candidate(id, 1 - i / 10));
+    const ranked = await collapseSegmentsStage().run(candidates, { ...context, limit: 2 });
+    expect(ids(ranked)).toEqual(['a', 'b']);
+  });
+});
+
+describe('relevanceFloorStage', () => {
+  it('judges chunks by their cosine similarity to the query', async () => {
+    const ranked = await relevanceFloorStage(0.9).run([
+      candidate('close', 0.1, { embedding: [0.96, 0.28] }),
+      candidate('far', 5, { embedding: [0.8, 0.6] }),
+    ], { ...context, queryVector: [1, 0] });
+    expect(ids(ranked)).toEqual(['close']);
+  });
+
+  it('prefers the cross-encoder score once it ran', async () => {
+    const ranked = await relevanceFloorStage(0.5).run([
+      { ...candidate('relevant', 0.1, { embedding: [0, 1] }), rerankScore: 0.8 },
+      { ...candidate('irrelevant', 0.9, { embedding: [1, 0] }), rerankScore: 0.2 },
+    ], { ...context, queryVector: [1, 0] });
+    expect(ids(ranked)).toEqual(['relevant']);
+  });
+});
+
+describe('normalizeStage', () => {
+  it('scales scores relative to the best and keeps them below 1', async () => {
+    const ranked = await normalizeStage().run([candidate('a', 4), candidate('b', 2)], context);
+    expect(ranked[0]?.score).toBeCloseTo(1 / 1.1);
+    expect(ranked[1]?.score).toBeCloseTo(0.5 / 1.1);
+  });
+
+  it('caps scores at 0.99', async () => {
+    // Unsorted input: a later candidate can outscore the first
+    const ranked = await normalizeStage().run([candidate('a', 1), candidate('b', 3)], context);
+    expect(ranked[1]?.score).toBe(0.99);
+  });
+
+  it('leaves an empty list alone', async () => {
+    expect(await normalizeStage().run([], context)).toEqual([]);
+  });
+});
+
+describe('buildRankingPipeline', () => {
+  const crossEncode: CrossEncode = async (_query, texts) => texts.map(() => 0.5);
+  const names = (stages: ReturnType<typeof buildRankingPipeline>) => stages.map(({ name }) => name);
+
+  it('boosts by intent without a cross-encoder', () => {
+    expect(names(buildRankingPipeline(resolveRanking()))).toEqual([
+      'dedupe', 'intent-boost', 'length-boost', 'collapse-segments', 'min-score', 'normalize',
+    ]);
+  });
+
+  it('puts the cross-encoder in place of the intent boost', () => {
+    expect(names(buildRankingPipeline(resolveRanking(), crossEncode))).toEqual([
+      'dedupe', 'cross-encoder', 'length-boost', 'collapse-segments', 'min-score', 'normalize',
+    ]);
+  });
+
+  it('falls back to the intent boost when the cross-encoder is disabled', () => {
+    const options = resolveRanking({ crossEncoder: { enabled: false } });
+    expect(names(buildRankingPipeline(options, crossEncode))).toContain('intent-boost');
+  });
+
+  it('applies the relevance floor before collapsing and normalizing', () => {
+    expect(names(buildRankingPipeline(resolveRanking(), crossEncode, 0.4))).toEqual([
+      'dedupe', 'cross-encoder', 'length-boost', 'relevance-floor', 'collapse-segments', 'min-score', 'normalize',
+    ]);
+  });
+
+  it('leaves out disabled stages', () => {
+    const options = resolveRanking({
+      dedupe: { enabled: false }, intentBoost: { enabled: false }, lengthBoost: { enabled: false }, minScore: 0, normalize: false,
+    });
+    expect(names(buildRankingPipeline(options))).toEqual(['collapse-segments']);
+  });
+
+  it('runs the stages in order', async () => {
+    const ranked = await runRankingPipeline(buildRankingPipeline(resolveRanking(), crossEncode), [
+      candidate('a', 0.5, { segmentId: 's1' }),
+      candidate('b', 0.6, { segmentId: 's2' }),
+    ], context);
+    expect(ids(ranked)).toEqual(['b', 'a']);
+    expect(ranked.every(({ rerankScore }) => rerankScore === 0.5)).toBe(true);
+    expect(ranked[0]?.score).toBeCloseTo(1 / 1.1);
+  });
+});
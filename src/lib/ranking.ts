@@ -0,0 +1,275 @@
+/**
+ * InsightCast Ranking Pipeline
+ *
+ * Search results are ranked by a list of stages, each taking the candidate
+ * list and returning a new one: rerankers adjust scores, deduplication and
+ * filters drop candidates, normalization rescales. Stages are plain objects
+ * built from RankingOptions, so each can be toggled per request and
+ * exercised on its own without loading any model.
+ */
+
+import type { IndexedDocument, RankingOptions, RankingOverrides } from '../types';
+
+const QUESTION_PATTERNS = {
+  definition: /\b(what is|what are|define|meaning of|definition)\b/i,
+  origin: /\b(where does|where do|origin|source|come from|comes from)\b/i,
+  howTo: /\b(how can|how do|how to|ways to|improve|develop|better)\b/i,
+  example: /\b(example|examples|instance|such as|like what|give me|show me|real life)\b/i,
+  author: /\b(who|author|person|says|believes|believed|troward)\b/i, // Added specific author names here if known
+};
+
+const ANSWER_INDICATORS: Record<string, string[]> = {
+  definition: ['is', 'means', 'refers to', 'defined as', 'is like'],
+  origin: ['comes from', 'source', 'part of', 'connected to'],
+  howTo: ['by', 'through', 'learn to', 'practice', 'listening', 'trust'],
+  example: ['for example', 'such as', 'like when', 'imagine', 'think of'],
+  author: ['says', 'believes', 'believed', 'according to'],
+};
+
+export interface RankedCandidate {
+  document: IndexedDocument;
+  /** Score from hybrid retrieval, before any stage ran */
+  retrievalScore: number;
+  /** Score after every stage so far */
+  score: number;
+  /** Cross-encoder relevance (0-1), once that stage ran */
+  rerankScore?: number;
+}
+
+/** Relevance (0-1) of each text to the query, in order */
+export type CrossEncode = (query: string, texts: string[]) => Promise<number[]>;
+
+export interface RankingContext {
+  query: string;
+  /** Question types detected in the query (`definition`, `howTo`... or `general`) */
+  intents: string[];
+  /** Number of results the search asked for */
+  limit: number;
+  /** Query embedding; empty for keyword-only retrieval */
+  queryVector?: number[];
+}
+
+export interface RankingStage {
+  name: string;
+  run(candidates: RankedCandidate[], context: RankingContext): RankedCandidate[] | Promise<RankedCandidate[]>;
+}
+
+export const DEFAULT_RANKING: RankingOptions = {
+  candidates: 30,
+  similarity: 0.3,
+  intentBoost: { enabled: true, step: 0.1, max: 0.3 },
+  crossEncoder: { enabled: true, weight: 1 },
+  lengthBoost: { enabled: true, charsPerPoint: 300, max: 0.2 },
+  dedupe: { enabled: true, prefixLength: 50 },
+  minScore: 0.1,
+  normalize: true,
+};
+
+/**
+ * Apply per-request overrides on top of the defaults.
+ */
+export function resolveRanking(overrides: RankingOverrides = {}): RankingOptions {
+  return {
+    candidates: overrides.candidates ?? DEFAULT_RANKING.candidates,
+    similarity: overrides.similarity ?? DEFAULT_RANKING.similarity,
+    intentBoost: { ...DEFAULT_RANKING.intentBoost, ...overrides.intentBoost },
+    crossEncoder: { ...DEFAULT_RANKING.crossEncoder, ...overrides.crossEncoder },
+    lengthBoost: { ...DEFAULT_RANKING.lengthBoost, ...overrides.lengthBoost },
+    dedupe: { ...DEFAULT_RANKING.dedupe, ...overrides.dedupe },
+    minScore: overrides.minScore ?? DEFAULT_RANKING.minScore,
+    normalize: overrides.normalize ?? DEFAULT_RANKING.normalize,
+  };
+}
+
+export function detectQuestionIntent(query: string): string[] {
+  const intents: string[] = [];
+  for (const [type, pattern] of Object.entries(QUESTION_PATTERNS)) {
+    if (pattern.test(query)) intents.push(type);
+  }
+  return intents.length > 0 ? intents : ['general'];
+}
+
+export function calculateHeuristicBoost(text: string, intents: string[], step = 0.1, max = 0.3): number {
+  let boost = 0;
+  const lowerText = text.toLowerCase();
+  
+  for (const intent of intents) {
+    const indicators = ANSWER_INDICATORS[intent] || [];
+    for (const indicator of indicators) {
+      if (lowerText.includes(indicator)) {
+        boost += step;
+      }
+    }
+  }
+  return Math.min(boost, max);
+}
+
+/**
+ * Drop near-duplicate chunks: same opening characters, case-insensitive.
+ * Keeps the first, i.e. the better-retrieved one.
+ */
+export function dedupeStage(prefixLength: number): RankingStage {
+  return {
+    name: 'dedupe',
+    run(candidates) {
+      const seen = new Set<string>();
+      return candidates.filter(({ document }) => {
+        const preview = document.text.substring(0, prefixLength).toLowerCase();
+        if (seen.has(preview)) return false;
+        seen.add(preview);
+        return true;
+      });
+    },
+  };
+}
+
+export function intentBoostStage({ step, max }: RankingOptions['intentBoost']): RankingStage {
+  return {
+    name: 'intent-boost',
+    run(candidates, { intents }) {
+      return candidates.map((candidate) => ({
+        ...candidate,
+        score: candidate.score + calculateHeuristicBoost(candidate.document.text, intents, step, max),
+      }));
+    },
+  };
+}
+
+/**
+ * Add the cross-encoder's relevance of each chunk to the query, scored in one batch.
+ */
+export function crossEncoderStage(crossEncode: CrossEncode, { weight }: RankingOptions['crossEncoder']): RankingStage {
+  return {
+    name: 'cross-encoder',
+    async run(candidates, { query }) {
+      const scores = await crossEncode(query, candidates.map(({ document }) => document.text));
+      return candidates.map((candidate, i) => {
+        const rerankScore = scores[i] ?? 0;
+        return { ...candidate, rerankScore, score: candidate.score + weight * rerankScore };
+      });
+    },
+  };
+}
+
+/**
+ * Favour longer, more informative chunks.
+ */
+export function lengthBoostStage({ charsPerPoint, max }: RankingOptions['lengthBoost']): RankingStage {
+  return {
+    name: 'length-boost',
+    run(candidates) {
+      return candidates.map((candidate) => ({
+        ...candidate,
+        score: candidate.score + Math.min(candidate.document.text.length / charsPerPoint, max),
+      }));
+    },
+  };
+}
+
+/**
+ * Keep only the best-scoring chunk of each segment, best first, at most
+ * `limit`. A window spanning several segments gives way to any better
+ * window sharing one of them, so no segment shows up in two results.
+ */
+export function collapseSegmentsStage(): RankingStage {
+  return {
+    name: 'collapse-segments',
+    run(candidates, { limit }) {
+      const covered = new Set<string>();
+      return [...candidates]
+        .sort((a, b) => b.score - a.score)
+        .filter(({ document }) => {
+          const keys = (document.segmentIds ?? [document.segmentId]).map((id) => `${document.episodeId}:${id}`);
+          if (keys.some((key) => covered.has(key))) return false;
+          keys.forEach((key) => covered.add(key));
+          return true;
+        })
+        .slice(0, limit);
+    },
+  };
+}
+
+export function minScoreStage(threshold: number): RankingStage {
+  return {
+    name: 'min-score',
+    run(candidates) {
+      return candidates.filter((candidate) => candidate.score > threshold);
+    },
+  };
+}
+
+/**
+ * How relevant a candidate is on its own (0-1), unlike its score, which the
+ * normalize stage makes relative to the best hit: the cross-encoder's score
+ * once it ran, else the cosine similarity of the chunk to the query. Without
+ * a query vector only the score is left, which for BM25 has no upper bound,
+ * so keyword searches don't apply a relevance floor.
+ */
+export function absoluteRelevance(candidate: RankedCandidate, queryVector: number[] = []): number {
+  if (candidate.rerankScore !== undefined) return candidate.rerankScore;
+  // Orama only returns vectors when asked to
+  const { embedding } = candidate.document;
+  if (queryVector.length === 0 || !embedding || embedding.length !== queryVector.length) return candidate.score;
+  // Both vectors are normalized, so the dot product is the cosine
+  return queryVector.reduce((sum, value, i) => sum + value * (embedding[i] ?? 0), 0);
+}
+
+/**
+ * Drop candidates whose absolute relevance is below the threshold the user
+ * chose, before normalization rescales what is left.
+ */
+export function relevanceFloorStage(threshold: number): RankingStage {
+  return {
+    name: 'relevance-floor',
+    run(candidates, { queryVector }) {
+      return candidates.filter((candidate) => absoluteRelevance(candidate, queryVector) >= threshold);
+    },
+  };
+}
+
+/**
+ * Rescale so the top result scores about 0.91 and nothing reaches 1;
+ * expects candidates sorted best first.
+ */
+export function normalizeStage(): RankingStage {
+  return {
+    name: 'normalize',
+    run(candidates) {
+      const maxScore = candidates[0]?.score;
+      if (maxScore === undefined) return candidates;
+      return candidates.map((candidate) => ({
+        ...candidate,
+        score: Math.min(candidate.score / (maxScore * 1.1), 0.99),
+      }));
+    },
+  };
+}
+
+/**
+ * The stages `options` enables, in order. Collapsing to one chunk per
+ * segment always runs, since results are per segment. With a cross-encoder
+ * available (and enabled) its score takes the place of the intent boost.
+ * `minRelevance` is the user's threshold, applied before collapsing so
+ * weaker chunks can't take a place it would have freed.
+ */
+export function buildRankingPipeline(options: RankingOptions, crossEncode?: CrossEncode, minRelevance = 0): RankingStage[] {
+  const useCrossEncoder = crossEncode !== undefined && options.crossEncoder.enabled;
+  return [
+    ...(options.dedupe.enabled ? [dedupeStage(options.dedupe.prefixLength)] : []),
+    ...(useCrossEncoder ? [crossEncoderStage(crossEncode, options.crossEncoder)] : []),
+    ...(!useCrossEncoder && options.intentBoost.enabled ? [intentBoostStage(options.intentBoost)] : []),
+    ...(options.lengthBoost.enabled ? [lengthBoostStage(options.lengthBoost)] : []),
+    ...(minRelevance > 0 ? [relevanceFloorStage(minRelevance)] : []),
+    collapseSegmentsStage(),
+    ...(options.minScore > 0 ? [minScoreStage(options.minScore)] : []),
+    ...(options.normalize ? [normalizeStage()] : []),
+  ];
+}
+
+export async function runRankingPipeline(stages: RankingStage[], candidates: RankedCandidate[], context: RankingContext): Promise<RankedCandidate[]> {
+  let ranked = candidates;
+  for (const stage of stages) {
+    ranked = await stage.run(ranked, context);
+  }
+  return ranked;
+}
@@ -0,0 +1,192 @@
+/**
+ * InsightCast Microphone Recorder
+ *
+ * Captures the microphone twice in parallel:
+ * - MediaRecorder keeps a compressed copy that becomes the playable file.
+ * - An AudioWorklet taps raw PCM, which is cut into rolling buffers,
+ *   resampled to 16kHz and handed to the caller for live transcription.
+ */
+
+import { resampleTo16k, TARGET_SAMPLE_RATE } from './audio';
+
+/** Length of each buffer sent for transcription */
+const ROLLING_BUFFER_S = 10;
+/** Buffers are cut at the quietest point of their last seconds, not mid-word */
+const SPLIT_SEARCH_S = 2;
+const SPLIT_FRAME_S = 0.1;
+
+const PROCESSOR_NAME = 'insightcast-pcm-capture';
+/** Sent to the processor to get the block it is still filling, answered after it */
+const FLUSH_MESSAGE = 'flush';
+const FLUSHED_MESSAGE = 'flushed';
+/** How long `stop()` waits for the flush before giving up on the last block */
+const FLUSH_TIMEOUT_MS = 1000;
+
+// Batches 128-frame render quanta into larger blocks before posting
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(4096);
+    this.length = 0;
+    this.port.onmessage = (event) => {
+      if (event.data !== '${FLUSH_MESSAGE}') return;
+      if (this.length > 0) this.port.postMessage(this.buffer.slice(0, this.length));
+      this.length = 0;
+      this.port.postMessage('${FLUSHED_MESSAGE}');
+    };
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    if (this.length + channel.length > this.buffer.length) {
+      this.port.postMessage(this.buffer.slice(0, this.length));
+      this.length = 0;
+    }
+    this.buffer.set(channel, this.length);
+    this.length += channel.length;
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface MicRecorder {
+  /** Flush the last buffer, stop capturing and return the recorded file */
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Index at which to cut `samples`: the start of the quietest frame
+ * in the trailing search window.
+ */
+function findQuietSplit(samples: Float32Array, sampleRate: number): number {
+  const frame = Math.floor(SPLIT_FRAME_S * sampleRate);
+  const searchStart = Math.max(0, samples.length - Math.floor(SPLIT_SEARCH_S * sampleRate));
+
+  let bestIndex = samples.length;
+  let bestEnergy = Infinity;
+
+  for (let start = searchStart; start + frame <= samples.length; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) {
+      const sample = samples[i] ?? 0;
+      energy += sample * sample;
+    }
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      bestIndex = start;
+    }
+  }
+  return bestIndex;
+}
+
+function concat(parts: Float32Array[], length: number): Float32Array {
+  const merged = new Float32Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    merged.set(part, offset);
+    offset += part.length;
+  }
+  return merged;
+}
+
+/**
+ * Start recording from the default microphone.
+ * `onBuffer` receives consecutive 16kHz mono buffers of roughly
+ * ROLLING_BUFFER_S seconds each, in order.
+ */
+export async function startMicRecorder(onBuffer: (samples: Float32Array) => void): Promise<MicRecorder> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+  });
+
+  const mediaRecorder = new MediaRecorder(stream);
+  const recordedChunks: Blob[] = [];
+  mediaRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) recordedChunks.push(event.data);
+  };
+
+  const audioContext = new AudioContext();
+  const workletUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(workletUrl);
+  } finally {
+    URL.revokeObjectURL(workletUrl);
+  }
+
+  const sampleRate = audioContext.sampleRate;
+  const bufferLength = ROLLING_BUFFER_S * sampleRate;
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  // Resampling is async; chain it so buffers reach the caller in order
+  let delivery = Promise.resolve();
+
+  const deliver = (samples: Float32Array) => {
+    delivery = delivery
+      .then(() => resampleTo16k(samples, sampleRate))
+      .then((resampled) => {
+        if (resampled.length >= TARGET_SAMPLE_RATE * SPLIT_FRAME_S) onBuffer(resampled);
+      })
+      .catch((error) => console.error('Failed to resample microphone audio:', error));
+  };
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(audioContext, PROCESSOR_NAME);
+  // Keep the graph pulled without playing the microphone back
+  const mute = audioContext.createGain();
+  mute.gain.value = 0;
+  source.connect(capture).connect(mute).connect(audioContext.destination);
+
+  let onFlushed: (() => void) | undefined;
+  capture.port.onmessage = (event: MessageEvent<Float32Array | typeof FLUSHED_MESSAGE>) => {
+    if (event.data === FLUSHED_MESSAGE) {
+      onFlushed?.();
+      return;
+    }
+    pending.push(event.data);
+    pendingLength += event.data.length;
+    if (pendingLength < bufferLength) return;
+
+    const merged = concat(pending, pendingLength);
+    const split = findQuietSplit(merged, sampleRate);
+    deliver(merged.subarray(0, split));
+
+    const rest = merged.slice(split);
+    pending = [rest];
+    pendingLength = rest.length;
+  };
+
+  mediaRecorder.start(1000);
+
+  const stop = async (): Promise<Blob> => {
+    // No new input after this, so the processor's partial block is the last of it
+    source.disconnect();
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+      onFlushed = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      capture.port.postMessage(FLUSH_MESSAGE);
+    });
+    capture.port.onmessage = null;
+    if (pendingLength > 0) deliver(concat(pending, pendingLength));
+    pending = [];
+    pendingLength = 0;
+
+    const stopped = new Promise<void>((resolve) => {
+      mediaRecorder.onstop = () => resolve();
+    });
+    mediaRecorder.stop();
+    await stopped;
+
+    stream.getTracks().forEach((track) => track.stop());
+    await delivery;
+    await audioContext.close();
+
+    return new Blob(recordedChunks, { type: mediaRecorder.mimeType || 'audio/webm' });
+  };
+
+  return { stop };
+}
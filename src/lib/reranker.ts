@@ -0,0 +1,46 @@
+/**
+ * InsightCast Cross-Encoder
+ *
+ * Loads an MS MARCO style cross-encoder, which reads the query and a chunk
+ * together and outputs one relevance logit per pair. Shared by the worker
+ * and the offline evaluation runner.
+ */
+
+import {
+  AutoTokenizer,
+  AutoModelForSequenceClassification,
+  type ProgressCallback,
+  type Tensor,
+} from '@huggingface/transformers';
+import type { CrossEncode } from './ranking';
+
+export interface CrossEncoder {
+  score: CrossEncode;
+  dispose: () => Promise<void>;
+}
+
+export interface CrossEncoderOptions {
+  device: 'webgpu' | 'wasm' | 'cpu';
+  dtype: 'fp32' | 'fp16' | 'q8' | 'q4';
+  progress_callback?: ProgressCallback;
+}
+
+export async function loadCrossEncoder(modelId: string, { device, dtype, progress_callback }: CrossEncoderOptions): Promise<CrossEncoder> {
+  const tokenizer = await AutoTokenizer.from_pretrained(modelId, { progress_callback });
+  const model = await AutoModelForSequenceClassification.from_pretrained(modelId, { device, dtype, progress_callback });
+
+  return {
+    /** Relevance of each text to the query as a probability (sigmoid of the logit) */
+    async score(query, texts) {
+      if (texts.length === 0) return [];
+
+      const inputs = tokenizer(texts.map(() => query), { text_pair: texts, padding: true, truncation: true });
+      const { logits } = await model(inputs) as { logits: Tensor };
+      const values = (logits.type === 'float32' ? logits : logits.to('float32')).data as Float32Array;
+      return Array.from(values, (logit) => 1 / (1 + Math.exp(-logit)));
+    },
+    async dispose() {
+      await model.dispose();
+    },
+  };
+}
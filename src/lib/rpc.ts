@@ -0,0 +1,135 @@
+/**
+ * InsightCast Worker RPC
+ *
+ * Promise-based calls over the worker protocol. Each request carries an ID
+ * the worker echoes on its reply (or error), so a reply settles the call
+ * that asked for it and an error rejects that call instead of surfacing
+ * globally. Calls sharing a `supersedes` key replace one another: starting
+ * a new search rejects the previous one with a SupersededError, and its
+ * reply is dropped when it eventually arrives.
+ *
+ * Messages outside any call (progress, partial segments, model readiness)
+ * are left to the caller's message handler.
+ */
+
+import type {
+  WorkerInputMessage,
+  WorkerOutputMessage,
+  ErrorMessage,
+  TranscriptionResultMessage,
+  JobCancelledMessage,
+  SearchResultsMessage,
+  AnswerMessage,
+  SimilarResultsMessage,
+  ClearedMessage,
+} from '../types';
+
+/**
+ * Reply each request type settles with.
+ */
+export interface WorkerResponses {
+  transcribe: TranscriptionResultMessage | JobCancelledMessage;
+  'import-transcript': TranscriptionResultMessage | JobCancelledMessage;
+  'finish-recording': TranscriptionResultMessage;
+  search: SearchResultsMessage;
+  ask: AnswerMessage;
+  'find-similar': SimilarResultsMessage;
+  clear: ClearedMessage;
+}
+
+export type RpcMethod = keyof WorkerResponses;
+
+// Omit each member on its own, keeping the union discriminated
+type WithoutRequestId<M> = M extends unknown ? Omit<M, 'requestId'> : never;
+
+/**
+ * A request as the caller writes it; the client assigns the ID.
+ */
+export type RpcRequest<T extends RpcMethod = RpcMethod> = WithoutRequestId<Extract<WorkerInputMessage, { type: T }>>;
+
+/**
+ * The worker reported a failure for this request.
+ */
+export class WorkerRequestError extends Error {
+  readonly operation: ErrorMessage['operation'];
+
+  constructor({ message, operation, stack }: ErrorMessage) {
+    super(message);
+    this.name = 'WorkerRequestError';
+    this.operation = operation;
+    if (stack) this.stack = stack;
+  }
+}
+
+/**
+ * A newer request with the same `supersedes` key replaced this one.
+ */
+export class SupersededError extends Error {
+  constructor(method: RpcMethod) {
+    super(`${method} request superseded by a newer one`);
+    this.name = 'SupersededError';
+  }
+}
+
+export interface RequestOptions {
+  /** Only the latest pending request per key settles */
+  supersedes?: string;
+}
+
+export interface RpcClient {
+  request: <M extends RpcRequest>(message: M, options?: RequestOptions) => Promise<WorkerResponses[M['type']]>;
+  /**
+   * Settle the call `message` replies to. Returns true when the message was
+   * a reply, including stale ones that are dropped.
+   */
+  handle: (message: WorkerOutputMessage) => boolean;
+  /** Give up on the pending call with this `supersedes` key, so its reply is dropped */
+  discard: (supersedes: string) => void;
+}
+
+interface PendingRequest {
+  method: RpcMethod;
+  supersedes?: string;
+  resolve: (message: WorkerOutputMessage) => void;
+  reject: (error: Error) => void;
+}
+
+export function createRpcClient(post: (message: WorkerInputMessage) => void): RpcClient {
+  const pending = new Map<number, PendingRequest>();
+  let nextRequestId = 1;
+
+  const discard = (supersedes: string) => {
+    for (const [id, request] of pending) {
+      if (request.supersedes !== supersedes) continue;
+      pending.delete(id);
+      request.reject(new SupersededError(request.method));
+    }
+  };
+
+  return {
+    request(message, { supersedes } = {}) {
+      const method = message.type;
+      const requestId = nextRequestId++;
+      if (supersedes) discard(supersedes);
+
+      return new Promise((resolve, reject) => {
+        pending.set(requestId, { method, supersedes, resolve: resolve as PendingRequest['resolve'], reject });
+        post({ ...message, requestId } as WorkerInputMessage);
+      });
+    },
+
+    handle(message) {
+      if (!('requestId' in message) || message.requestId === undefined) return false;
+
+      const request = pending.get(message.requestId);
+      if (!request) return true;
+      pending.delete(message.requestId);
+
+      if (message.type === 'error') request.reject(new WorkerRequestError(message));
+      else request.resolve(message);
+      return true;
+    },
+
+    discard,
+  };
+}
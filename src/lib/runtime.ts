@@ -0,0 +1,42 @@
+/**
+ * InsightCast Worker Runtime
+ *
+ * Helpers shared by the engine's workers: device detection, dtype defaults
+ * and model download progress reporting.
+ */
+
+import type { ProgressCallback } from '@huggingface/transformers';
+import type { ModelDtype, ProgressMessage } from '../types';
+
+export type LoadingStage = Extract<ProgressMessage['stage'], `loading-${string}`>;
+
+export async function checkWebGPUSupport(): Promise<boolean> {
+  if (!('gpu' in navigator)) return false;
+  try {
+    if (!navigator.gpu) return false;
+    const adapter = await navigator.gpu.requestAdapter();
+    if (!adapter) return false;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveDtype(dtype: ModelDtype, fallback: Exclude<ModelDtype, 'auto'>): Exclude<ModelDtype, 'auto'> {
+  return dtype === 'auto' ? fallback : dtype;
+}
+
+/**
+ * Forward transformers.js download progress for `stage` as progress messages.
+ */
+export function createProgressCallback(stage: LoadingStage, post: (message: ProgressMessage) => void): ProgressCallback {
+  return (progress) => {
+    if (progress.status === 'progress' && progress.progress !== undefined) {
+      post({ type: 'progress', stage, progress: progress.progress, message: `Downloading ${progress.file ?? 'model'}...` });
+    } else if (progress.status === 'done') {
+      post({ type: 'progress', stage, progress: 100, message: 'Model loaded successfully' });
+    } else if (progress.status === 'initiate') {
+      post({ type: 'progress', stage, progress: 0, message: `Initializing ${progress.file ?? 'model'}...` });
+    }
+  };
+}
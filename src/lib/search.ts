@@ -0,0 +1,358 @@
+/**
+ * InsightCast Search Pipeline
+ *
+ * Index schema, document building from context windows and hybrid
+ * candidate retrieval feeding the ranking pipeline. Runs wherever Orama does: the
+ * worker uses it for live search and the offline evaluation harness runs
+ * the exact same code.
+ */
+
+import { create, search, type Orama, type SearchParams, type SearchParamsFullText, type SearchParamsVector, type Vector } from '@orama/orama';
+import type { IndexedDocument, QueryConstraints, RankingOverrides, RetrievalMode, SearchResult, TimeRange, TranscriptSegment } from '../types';
+import {
+  detectQuestionIntent,
+  resolveRanking,
+  buildRankingPipeline,
+  runRankingPipeline,
+  type RankedCandidate,
+  type CrossEncode,
+} from './ranking';
+import { matchesConstraints } from './query';
+import { normalize } from './diarization';
+import { chunkSegments, type ContextWindow } from './chunking';
+
+// Matches this close together (seconds) count as adjacent when merging
+const MERGE_GAP_S = 1.5;
+// Text constraints are checked after retrieval, so fetch more to leave enough behind
+const CONSTRAINED_CANDIDATES_FACTOR = 3;
+
+/** Turns text into a normalized embedding vector */
+export type EmbedText = (text: string) => Promise<number[]>;
+/** Embeds a batch of texts in one call, returning vectors in input order */
+export type EmbedBatch = (texts: string[]) => Promise<number[][]>;
+
+export interface EmbedWindowsOptions {
+  /** Windows sent to the embedder per call */
+  batchSize?: number;
+  /** Called after each batch with the number of windows embedded so far */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface SearchOptions {
+  /** Maximum number of results */
+  limit?: number;
+  /** Restrict to these episodes */
+  episodeIds?: string[];
+  /** Restrict to these speaker IDs */
+  speakers?: string[];
+  /** Changes to the default ranking stages */
+  ranking?: RankingOverrides;
+  /** Cross-encoder to rerank candidates with, when one is loaded */
+  crossEncode?: CrossEncode;
+  /** Only return segments overlapping this range */
+  timeRange?: TimeRange;
+  /** Where each episode's transcript ends, to resolve negative `timeRange` bounds */
+  episodeEnds?: ReadonlyMap<string, number>;
+  /** Drop results less relevant than this (0-1), judged before scores are normalized; keyword retrieval ignores it */
+  minScore?: number;
+  /** Retrieval mode (default: hybrid); keyword mode ignores the query vector */
+  retrieval?: RetrievalMode;
+  /** Merge matches in back-to-back segments into one result */
+  mergeAdjacent?: boolean;
+  /** Phrases, exclusions and speakers the results must satisfy */
+  constraints?: QueryConstraints;
+  /** Leave out this segment, e.g. the one a similarity search started from */
+  excludeSegment?: { episodeId: string; segmentId: string };
+}
+
+function indexSchema(dimensions: number) {
+  return {
+    id: 'string',
+    episodeId: 'enum',         // Filterable for per-episode search
+    segmentId: 'string',
+    text: 'string',            // Indexed for Keyword Search
+    fullSegmentText: 'string', // Display text
+    start: 'number',
+    end: 'number',
+    speaker: 'enum',           // Filterable for per-speaker search
+    embedding: `vector[${dimensions}]` as Vector, // Indexed for Vector Search, sized by the embedder
+  } as const;
+}
+
+/** Orama index of IndexedDocument windows */
+export type SearchIndex = Orama<ReturnType<typeof indexSchema>>;
+
+export function createSearchIndex(dimensions: number): Promise<SearchIndex> {
+  return create({ schema: indexSchema(dimensions) });
+}
+
+/**
+ * Let queued messages through. Model calls resolve as microtasks, so a loop
+ * of them never lets a worker answer a heartbeat until it is done.
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+/**
+ * Embed context windows into index documents, `batchSize` windows per
+ * embedder call. Windows whose embedding doesn't have `dimensions` entries
+ * are skipped.
+ */
+export async function embedWindows(
+  episodeId: string,
+  windows: ContextWindow[],
+  embed: EmbedBatch,
+  dimensions: number,
+  { batchSize = 1, onProgress }: EmbedWindowsOptions = {}
+): Promise<IndexedDocument[]> {
+  const documents: IndexedDocument[] = [];
+
+  for (let i = 0; i < windows.length; i += batchSize) {
+    const batch = windows.slice(i, i + batchSize);
+    const embeddings = await embed(batch.map((window) => window.text));
+    onProgress?.(i + batch.length, windows.length);
+    await yieldToEventLoop();
+
+    batch.forEach((window, j) => {
+      const embedding = embeddings[j];
+      if (embedding?.length !== dimensions) return;
+
+      documents.push({
+        id: window.id,
+        episodeId,
+        segmentId: window.segmentIds[0] ?? '',
+        segmentIds: window.segmentIds,
+        text: window.text,
+        fullSegmentText: window.context, // Store for display
+        ...(window.translated ? { translated: true } : {}),
+        start: window.start,
+        end: window.end,
+        speaker: window.speaker,
+        embedding,
+      });
+    });
+  }
+  return documents;
+}
+
+/**
+ * Index documents for `segments`: one per context window of the text, plus
+ * one per window of the English translations when there are any.
+ */
+export async function buildDocuments(episodeId: string, segments: TranscriptSegment[], embed: EmbedText, dimensions: number): Promise<IndexedDocument[]> {
+  const embedEach: EmbedBatch = async (texts) => {
+    const embeddings: number[][] = [];
+    for (const text of texts) embeddings.push(await embed(text));
+    return embeddings;
+  };
+  return embedWindows(episodeId, chunkSegments(segments), embedEach, dimensions);
+}
+
+/**
+ * Segments a document's window spans; documents stored before context
+ * windows cover only their own segment.
+ */
+export function documentSegmentIds(document: IndexedDocument): string[] {
+  return document.segmentIds ?? [document.segmentId];
+}
+
+/**
+ * Query vector for a segment: the normalized mean of the embeddings of
+ * the windows covering it, so no single window stands in for it alone.
+ */
+export function segmentEmbedding(documents: IndexedDocument[]): number[] {
+  const dimensions = documents[0]?.embedding.length ?? 0;
+  const sum = new Array<number>(dimensions).fill(0);
+  for (const document of documents) {
+    document.embedding.forEach((value, i) => {
+      sum[i] = (sum[i] ?? 0) + value;
+    });
+  }
+  return normalize(sum);
+}
+
+/**
+ * `range` in absolute seconds for an episode ending at `episodeEnd`.
+ * Negative bounds of an episode whose end is unknown are ignored.
+ */
+export function resolveTimeRange(range: TimeRange, episodeEnd?: number): { start: number; end: number } {
+  const resolve = (bound: number | undefined, fallback: number) => {
+    if (bound === undefined) return fallback;
+    if (bound >= 0) return bound;
+    return episodeEnd === undefined ? fallback : Math.max(0, episodeEnd + bound);
+  };
+  return { start: resolve(range.start, 0), end: resolve(range.end, Infinity) };
+}
+
+/**
+ * Orama filter for the bounds of `range` that don't depend on the episode;
+ * negative ones are applied to the candidates afterwards.
+ */
+function timeRangeWhere(range?: TimeRange): Record<string, { gt: number } | { lt: number }> {
+  return {
+    ...(range?.start !== undefined && range.start >= 0 ? { end: { gt: range.start } } : {}),
+    ...(range?.end !== undefined && range.end >= 0 && isFinite(range.end) ? { start: { lt: range.end } } : {}),
+  };
+}
+
+function hasRelativeBounds(range?: TimeRange): boolean {
+  return (range?.start ?? 0) < 0 || (range?.end ?? 0) < 0;
+}
+
+/**
+ * Combine results whose segments follow each other in the same episode
+ * into one result spanning them, scored by its best part.
+ */
+export function mergeAdjacentResults(results: SearchResult[], maxGap = MERGE_GAP_S): SearchResult[] {
+  const byTime = [...results].sort((a, b) =>
+    a.episodeId.localeCompare(b.episodeId) || a.segment.start - b.segment.start
+  );
+
+  const groups: SearchResult[][] = [];
+  for (const result of byTime) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (group && previous && previous.episodeId === result.episodeId && result.segment.start - previous.segment.end <= maxGap) {
+      group.push(result);
+    } else {
+      groups.push([result]);
+    }
+  }
+
+  return groups
+    .map((group) => {
+      const best = group.reduce((a, b) => (b.score > a.score ? b : a));
+      if (group.length === 1) return best;
+      return {
+        ...best,
+        segment: {
+          ...best.segment,
+          start: group[0]?.segment.start ?? best.segment.start,
+          end: group[group.length - 1]?.segment.end ?? best.segment.end,
+          text: group.map((result) => result.segment.text.trim()).join(' '),
+        },
+        segmentIds: [...new Set(group.flatMap((result) => result.segmentIds ?? [result.segment.id]))],
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieval of candidate chunks (hybrid BM25 + vector unless
+ * `options.retrieval` says otherwise), ranked by the pipeline
+ * `options.ranking` configures (by default: dedupe, intent boost or
+ * cross-encoder, length boost, one chunk per segment, score floor,
+ * normalization).
+ */
+export async function searchDocuments(db: SearchIndex, query: string, queryVector: number[], options: SearchOptions = {}): Promise<SearchResult[]> {
+  const { limit = 10, speakers, timeRange, episodeEnds, minScore = 0, retrieval = 'hybrid', mergeAdjacent = false, constraints, excludeSegment } = options;
+  const ranking = resolveRanking(options.ranking);
+
+  // Speaker operators narrow the episodes and speaker IDs Orama filters on
+  const speakerRefs = constraints?.speakers;
+  let episodeIds = options.episodeIds;
+  if (speakerRefs) {
+    const speakerEpisodes = new Set(speakerRefs.map((ref) => ref.episodeId));
+    episodeIds = (episodeIds ?? [...speakerEpisodes]).filter((episodeId) => speakerEpisodes.has(episodeId));
+    if (episodeIds.length === 0) return [];
+  }
+  const speakerIds = speakerRefs
+    ? [...new Set(speakerRefs.map((ref) => ref.speaker))].filter((speaker) => !speakers || speakers.includes(speaker))
+    : speakers;
+  if (speakerIds?.length === 0) return [];
+  const hasTextConstraints = (constraints?.required?.length ?? 0) > 0 || (constraints?.excluded?.length ?? 0) > 0;
+
+  // Fetch more to allow for better re-ranking
+  const candidateLimit = ranking.candidates * (hasTextConstraints ? CONSTRAINED_CANDIDATES_FACTOR : 1);
+
+  const keywordParams: Required<Pick<SearchParamsFullText<SearchIndex, IndexedDocument>, 'term' | 'properties'>> = {
+    term: query, // Uses BM25 (Keyword matching)
+    properties: ['text'], // Perform keyword search on the text field
+  };
+  const vectorParams: Required<Pick<SearchParamsVector<SearchIndex, IndexedDocument>, 'vector' | 'similarity' | 'includeVectors'>> = {
+    vector: {
+      value: queryVector,
+      property: 'embedding', // Uses Vector Similarity
+    },
+    similarity: ranking.similarity, // Lower threshold to get more candidates
+    // Needed by the relevance floor; Orama also blanks the stored vectors of hits without it
+    includeVectors: true,
+  };
+
+  const retrieve = (inEpisodes: string[] | undefined, range: TimeRange | undefined) => {
+    const filters = {
+      where: {
+        ...(inEpisodes ? { episodeId: { in: inEpisodes } } : {}),
+        ...(speakerIds ? { speaker: { in: speakerIds } } : {}),
+        ...timeRangeWhere(range),
+      },
+      limit: candidateLimit,
+    };
+    // Orama types each mode's params separately
+    const params: SearchParams<SearchIndex, IndexedDocument> = retrieval === 'keyword'
+      ? { mode: 'fulltext', ...keywordParams, ...filters }
+      : retrieval === 'vector'
+        ? { mode: 'vector', ...vectorParams, ...filters }
+        : { mode: 'hybrid', ...keywordParams, ...vectorParams, ...filters };
+    return search(db, params);
+  };
+
+  // Bounds counted from the end differ per episode: filter each episode on its own
+  // rather than letting the rest of the library crowd its matches out of the candidates
+  const hits = timeRange && hasRelativeBounds(timeRange) && episodeEnds
+    ? (await Promise.all((episodeIds ?? [...episodeEnds.keys()]).map(async (episodeId) =>
+        (await retrieve([episodeId], resolveTimeRange(timeRange, episodeEnds.get(episodeId)))).hits
+      ))).flat().sort((a, b) => b.score - a.score).slice(0, candidateLimit)
+    : (await retrieve(episodeIds, timeRange)).hits;
+
+  const candidates: RankedCandidate[] = hits
+    .map((hit) => ({
+      document: hit.document,
+      retrievalScore: hit.score,
+      score: hit.score,
+    }))
+    .filter(({ document }) =>
+      !excludeSegment || document.episodeId !== excludeSegment.episodeId || !documentSegmentIds(document).includes(excludeSegment.segmentId)
+    )
+    .filter(({ document }) => {
+      if (!timeRange) return true;
+      const { start, end } = resolveTimeRange(timeRange, episodeEnds?.get(document.episodeId));
+      return document.end > start && document.start < end;
+    })
+    .filter(({ document }) => {
+      if (!constraints) return true;
+      if (speakerRefs && !speakerRefs.some((ref) => ref.episodeId === document.episodeId && ref.speaker === document.speaker)) return false;
+      // Phrases may span chunk windows, so check the whole segment
+      return matchesConstraints(document.fullSegmentText, constraints);
+    });
+
+  // BM25 scores have no 0-1 scale for the floor to compare against
+  const minRelevance = retrieval === 'keyword' ? 0 : minScore;
+  const ranked = await runRankingPipeline(buildRankingPipeline(ranking, options.crossEncode, minRelevance), candidates, {
+    query,
+    intents: detectQuestionIntent(query),
+    limit,
+    queryVector,
+  });
+
+  const results: SearchResult[] = ranked
+    .map(({ document, score, rerankScore }) => ({
+      episodeId: document.episodeId,
+      segment: {
+        id: document.segmentId,
+        text: document.fullSegmentText, // Display full context
+        start: document.start,
+        end: document.end,
+        speaker: document.speaker,
+      },
+      score,
+      matchedText: document.text, // Store the specific chunk that matched
+      // A window spanning several segments highlights all of them
+      ...(documentSegmentIds(document).length > 1 ? { segmentIds: documentSegmentIds(document) } : {}),
+      ...(document.translated ? { translated: true } : {}),
+      ...(rerankScore !== undefined ? { rerankScore } : {}),
+    }));
+
+  return mergeAdjacent ? mergeAdjacentResults(results) : results;
+}
@@ -0,0 +1,49 @@
+/**
+ * InsightCast Speaker Helpers
+ *
+ * Display names and colors for diarized speakers, shared by the transcript,
+ * the speaker list and exports.
+ */
+
+import type { Episode, TranscriptSegment } from '../types';
+
+/** Full class names so Tailwind keeps them in the build */
+const SPEAKER_COLORS = [
+  { text: 'text-sky-400', dot: 'bg-sky-400', border: 'border-sky-500/40' },
+  { text: 'text-amber-400', dot: 'bg-amber-400', border: 'border-amber-500/40' },
+  { text: 'text-emerald-400', dot: 'bg-emerald-400', border: 'border-emerald-500/40' },
+  { text: 'text-fuchsia-400', dot: 'bg-fuchsia-400', border: 'border-fuchsia-500/40' },
+  { text: 'text-rose-400', dot: 'bg-rose-400', border: 'border-rose-500/40' },
+  { text: 'text-lime-400', dot: 'bg-lime-400', border: 'border-lime-500/40' },
+  { text: 'text-orange-400', dot: 'bg-orange-400', border: 'border-orange-500/40' },
+  { text: 'text-violet-400', dot: 'bg-violet-400', border: 'border-violet-500/40' },
+];
+
+export type SpeakerColor = (typeof SPEAKER_COLORS)[number];
+
+/**
+ * Speaker IDs of an episode in order of first appearance.
+ */
+export function getSpeakers(segments: TranscriptSegment[]): string[] {
+  const speakers = new Set<string>();
+  for (const segment of segments) {
+    if (segment.speaker) speakers.add(segment.speaker);
+  }
+  return [...speakers];
+}
+
+/**
+ * Name shown for a speaker: the user's name for it, "Speaker N" for
+ * diarized IDs, or the ID itself (imported captions already carry names).
+ */
+export function getSpeakerLabel(speakerNames: Episode['speakerNames'], speaker: string): string {
+  const name = speakerNames?.[speaker];
+  if (name) return name;
+
+  const diarized = /^S(\d+)$/.exec(speaker);
+  return diarized ? `Speaker ${diarized[1]}` : speaker;
+}
+
+export function getSpeakerColor(index: number): SpeakerColor {
+  return SPEAKER_COLORS[Math.max(0, index) % SPEAKER_COLORS.length];
+}
@@ -0,0 +1,337 @@
+/**
+ * InsightCast Persistence Layer
+ *
+ * Thin promise wrapper around IndexedDB. Used by both the main thread
+ * (audio blobs, active episode) and the Web Worker (episodes and index documents),
+ * so it must not touch any DOM-only API.
+ */
+
+import type {
+  Chapter,
+  CheckpointSummary,
+  CheckpointWindow,
+  ModelSettings,
+  PersistedEpisode,
+  SearchHistoryEntry,
+  TranscriptionCheckpoint,
+  TranscriptSegment,
+} from '../types';
+
+const DB_NAME = 'insightcast';
+const DB_VERSION = 4;
+
+const EPISODES_STORE = 'episodes';
+const AUDIO_STORE = 'audio';
+const META_STORE = 'meta';
+const JOBS_STORE = 'jobs';
+const CHECKPOINT_WINDOWS_STORE = 'checkpointWindows';
+
+/** Single-transcript store from version 1, superseded by the episode library */
+const LEGACY_TRANSCRIPTS_STORE = 'transcripts';
+
+/** Record of the version 1 transcripts store, keyed by audio hash */
+interface LegacyTranscript {
+  hash: string;
+  fileName: string;
+  duration: number;
+  segments: TranscriptSegment[];
+  createdAt: number;
+}
+
+const ACTIVE_EPISODE_KEY = 'activeEpisodeId';
+/** Active transcript's audio hash from version 1; the hash is now the episode ID */
+const LEGACY_ACTIVE_HASH_KEY = 'activeHash';
+const MODEL_SETTINGS_KEY = 'modelSettings';
+
+/** Search history lives in the meta store, one entry list per episode */
+function searchHistoryKey(episodeId: string): string {
+  return `searchHistory:${episodeId}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      if (!db.objectStoreNames.contains(EPISODES_STORE)) {
+        db.createObjectStore(EPISODES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE);
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        db.createObjectStore(JOBS_STORE, { keyPath: 'episodeId' });
+      }
+      if (!db.objectStoreNames.contains(CHECKPOINT_WINDOWS_STORE)) {
+        db.createObjectStore(CHECKPOINT_WINDOWS_STORE, { keyPath: ['episodeId', 'window'] });
+        splitCheckpoints(transaction);
+      }
+      if (db.objectStoreNames.contains(LEGACY_TRANSCRIPTS_STORE)) {
+        migrateLegacyTranscripts(db, transaction);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Move version 1 transcripts into the episode library, then drop their store.
+ * Runs inside the upgrade transaction, so a failed migration aborts the
+ * upgrade instead of losing data. Documents are left empty: without a
+ * chunker version the worker re-embeds the segments on restore.
+ */
+function migrateLegacyTranscripts(db: IDBDatabase, transaction: IDBTransaction): void {
+  const episodes = transaction.objectStore(EPISODES_STORE);
+  const meta = transaction.objectStore(META_STORE);
+
+  transaction.objectStore(LEGACY_TRANSCRIPTS_STORE).getAll().onsuccess = (event) => {
+    const transcripts = (event.target as IDBRequest<LegacyTranscript[]>).result;
+    for (const { hash, fileName, duration, segments, createdAt } of transcripts) {
+      const episode: PersistedEpisode = { id: hash, fileName, duration, segments, createdAt, documents: [] };
+      episodes.put(episode);
+    }
+    db.deleteObjectStore(LEGACY_TRANSCRIPTS_STORE);
+  };
+
+  meta.get(LEGACY_ACTIVE_HASH_KEY).onsuccess = (event) => {
+    const hash = (event.target as IDBRequest<string | undefined>).result;
+    if (hash) meta.put(hash, ACTIVE_EPISODE_KEY);
+    meta.delete(LEGACY_ACTIVE_HASH_KEY);
+  };
+}
+
+/**
+ * Version 3 kept each checkpoint's whole transcript in its jobs record:
+ * move it into a single window record.
+ */
+function splitCheckpoints(transaction: IDBTransaction): void {
+  const windows = transaction.objectStore(CHECKPOINT_WINDOWS_STORE);
+
+  transaction.objectStore(JOBS_STORE).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const { segments, documents, ...summary } = cursor.value as TranscriptionCheckpoint;
+    if (segments) {
+      const record: CheckpointWindow = { episodeId: summary.episodeId, window: summary.completedWindows - 1, segments, documents };
+      windows.put(record);
+      cursor.update(summary);
+    }
+    cursor.continue();
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisify(run(store));
+}
+
+/**
+ * SHA-256 of the raw file bytes, hex encoded.
+ * Used as the episode ID, so identical audio always maps to the same episode.
+ */
+export async function hashAudioFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function saveEpisode(episode: PersistedEpisode): Promise<void> {
+  await withStore(EPISODES_STORE, 'readwrite', (store) => store.put(episode));
+}
+
+export async function getEpisode(id: string): Promise<PersistedEpisode | undefined> {
+  return withStore<PersistedEpisode | undefined>(EPISODES_STORE, 'readonly', (store) => store.get(id));
+}
+
+export async function getAllEpisodes(): Promise<PersistedEpisode[]> {
+  const episodes = await withStore<PersistedEpisode[]>(EPISODES_STORE, 'readonly', (store) => store.getAll());
+  return episodes.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Remove an episode together with its audio blob, search history and any leftover checkpoint.
+ */
+export async function deleteEpisode(id: string): Promise<void> {
+  const db = await openDatabase();
+  const stores = [EPISODES_STORE, AUDIO_STORE, JOBS_STORE];
+  const transaction = db.transaction([...stores, META_STORE, CHECKPOINT_WINDOWS_STORE], 'readwrite');
+
+  await Promise.all([
+    ...stores.map((name) => promisify(transaction.objectStore(name).delete(id))),
+    promisify(transaction.objectStore(META_STORE).delete(searchHistoryKey(id))),
+    promisify(transaction.objectStore(CHECKPOINT_WINDOWS_STORE).delete(checkpointWindowRange(id))),
+  ]);
+}
+
+/**
+ * Store the display names of an episode's speakers.
+ * Read and write share one transaction so a concurrent save cannot be lost.
+ */
+export async function saveSpeakerNames(episodeId: string, speakerNames: Record<string, string>): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(EPISODES_STORE, 'readwrite').objectStore(EPISODES_STORE);
+
+  const episode = await promisify<PersistedEpisode | undefined>(store.get(episodeId));
+  if (!episode) return;
+  await promisify(store.put({ ...episode, speakerNames }));
+}
+
+export async function saveChapters(episodeId: string, chapters: Chapter[]): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(EPISODES_STORE, 'readwrite').objectStore(EPISODES_STORE);
+
+  const episode = await promisify<PersistedEpisode | undefined>(store.get(episodeId));
+  if (!episode) return;
+  await promisify(store.put({ ...episode, chapters }));
+}
+
+export async function saveAudioBlob(episodeId: string, blob: Blob): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', (store) => store.put(blob, episodeId));
+}
+
+export async function getAudioBlob(episodeId: string): Promise<Blob | undefined> {
+  return withStore<Blob | undefined>(AUDIO_STORE, 'readonly', (store) => store.get(episodeId));
+}
+
+export async function deleteAudioBlob(episodeId: string): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', (store) => store.delete(episodeId));
+}
+
+/** Keys of every window record of an episode's checkpoint */
+function checkpointWindowRange(episodeId: string): IDBKeyRange {
+  return IDBKeyRange.bound([episodeId, -Infinity], [episodeId, Infinity]);
+}
+
+function toSummary({ segments: _segments, documents: _documents, ...summary }: TranscriptionCheckpoint): CheckpointSummary {
+  return summary;
+}
+
+/**
+ * Record the windows completed since the last save: `added` holds only
+ * their segments and documents, `checkpoint` the job's state after them.
+ */
+export async function appendCheckpointWindow(checkpoint: TranscriptionCheckpoint, added: CheckpointWindow): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([JOBS_STORE, CHECKPOINT_WINDOWS_STORE], 'readwrite');
+
+  await Promise.all([
+    promisify(transaction.objectStore(JOBS_STORE).put(toSummary(checkpoint))),
+    promisify(transaction.objectStore(CHECKPOINT_WINDOWS_STORE).put(added)),
+  ]);
+}
+
+/**
+ * Replace a checkpoint's windows with a single record, e.g. after its
+ * documents were re-embedded.
+ */
+export async function saveCheckpoint(checkpoint: TranscriptionCheckpoint): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([JOBS_STORE, CHECKPOINT_WINDOWS_STORE], 'readwrite');
+  const windows = transaction.objectStore(CHECKPOINT_WINDOWS_STORE);
+  const { episodeId, completedWindows, segments, documents } = checkpoint;
+  const record: CheckpointWindow = { episodeId, window: completedWindows - 1, segments, documents };
+
+  await Promise.all([
+    promisify(transaction.objectStore(JOBS_STORE).put(toSummary(checkpoint))),
+    promisify(windows.delete(checkpointWindowRange(episodeId))),
+    promisify(windows.put(record)),
+  ]);
+}
+
+/**
+ * A checkpoint with its transcript reassembled from the window records.
+ */
+export async function getCheckpoint(episodeId: string): Promise<TranscriptionCheckpoint | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction([JOBS_STORE, CHECKPOINT_WINDOWS_STORE], 'readonly');
+
+  const [summary, windows] = await Promise.all([
+    promisify<CheckpointSummary | undefined>(transaction.objectStore(JOBS_STORE).get(episodeId)),
+    promisify<CheckpointWindow[]>(transaction.objectStore(CHECKPOINT_WINDOWS_STORE).getAll(checkpointWindowRange(episodeId))),
+  ]);
+  if (!summary) return undefined;
+  return {
+    ...summary,
+    segments: windows.flatMap((window) => window.segments),
+    documents: windows.flatMap((window) => window.documents),
+  };
+}
+
+export async function getAllCheckpoints(): Promise<CheckpointSummary[]> {
+  return withStore<CheckpointSummary[]>(JOBS_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function deleteCheckpoint(episodeId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([JOBS_STORE, CHECKPOINT_WINDOWS_STORE], 'readwrite');
+
+  await Promise.all([
+    promisify(transaction.objectStore(JOBS_STORE).delete(episodeId)),
+    promisify(transaction.objectStore(CHECKPOINT_WINDOWS_STORE).delete(checkpointWindowRange(episodeId))),
+  ]);
+}
+
+export async function setActiveEpisodeId(episodeId: string): Promise<void> {
+  await withStore(META_STORE, 'readwrite', (store) => store.put(episodeId, ACTIVE_EPISODE_KEY));
+}
+
+export async function getActiveEpisodeId(): Promise<string | undefined> {
+  return withStore<string | undefined>(META_STORE, 'readonly', (store) => store.get(ACTIVE_EPISODE_KEY));
+}
+
+export async function saveSearchHistory(episodeId: string, entries: SearchHistoryEntry[]): Promise<void> {
+  await withStore(META_STORE, 'readwrite', (store) => store.put(entries, searchHistoryKey(episodeId)));
+}
+
+export async function getSearchHistory(episodeId: string): Promise<SearchHistoryEntry[]> {
+  const entries = await withStore<SearchHistoryEntry[] | undefined>(META_STORE, 'readonly', (store) => store.get(searchHistoryKey(episodeId)));
+  return entries ?? [];
+}
+
+export async function saveModelSettings(settings: ModelSettings): Promise<void> {
+  await withStore(META_STORE, 'readwrite', (store) => store.put(settings, MODEL_SETTINGS_KEY));
+}
+
+export async function getModelSettings(): Promise<ModelSettings | undefined> {
+  return withStore<ModelSettings | undefined>(META_STORE, 'readonly', (store) => store.get(MODEL_SETTINGS_KEY));
+}
+
+/**
+ * Remove every persisted episode, audio blob, checkpoint and metadata entry.
+ */
+export async function clearStorage(): Promise<void> {
+  const db = await openDatabase();
+  const stores = [EPISODES_STORE, AUDIO_STORE, META_STORE, JOBS_STORE, CHECKPOINT_WINDOWS_STORE];
+  const transaction = db.transaction(stores, 'readwrite');
+
+  await Promise.all(stores.map((name) => promisify(transaction.objectStore(name).clear())));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchHistoryEntry, TranscriptSegment } from '../types';
+import { extractKeyPhrases, recordQuery, removeQuery, suggestQueries, togglePinnedQuery } from './suggestions';
+
+function entry(query: string, lastUsed: number, pinned = false): SearchHistoryEntry {
+  return { query, lastUsed, uses: 1, pinned };
+}
+
+describe('recordQuery', () => {
+  it('adds a new query in front, normalizing whitespace', () => {
+    expect(recordQuery([entry('old', 1)], '  new   query ', 5)).toEqual([
+      { query: 'new query', lastUsed: 5, uses: 1, pinned: false },
+      entry('old', 1),
+    ]);
+  });
+
+  it('moves a repeated query to the front, ignoring case', () => {
+    const history = recordQuery([entry('a', 1), entry('Budget', 2, true)], 'budget', 9);
+    expect(history).toEqual([{ query: 'budget', lastUsed: 9, uses: 2, pinned: true }, entry('a', 1)]);
+  });
+
+  it('ignores a blank query', () => {
+    const history = [entry('a', 1)];
+    expect(recordQuery(history, '   ')).toBe(history);
+  });
+
+  it('drops the oldest unpinned queries beyond 50, never pinned ones', () => {
+    const history = [
+      ...Array.from({ length: 50 }, (_, i) => entry(`q${i}`, 100 - i)),
+      entry('pinned', 0, true),
+    ];
+    const updated = recordQuery(history, 'newest', 200);
+    expect(updated).toHaveLength(51);
+    expect(updated.map((item) => item.query)).not.toContain('q49');
+    expect(updated.map((item) => item.query)).toContain('pinned');
+  });
+});
+
+describe('togglePinnedQuery', () => {
+  it.each<[string, SearchHistoryEntry[], SearchHistoryEntry[]]>([
+    ['pins a new query', [], [{ query: 'a b', lastUsed: 3, uses: 0, pinned: true }]],
+    ['pins a recent query', [entry('a b', 1)], [entry('a b', 1, true)]],
+    ['unpins a pinned query', [entry('A B', 1, true)], [entry('A B', 1)]],
+  ])('%s', (_, history, expected) => {
+    expect(togglePinnedQuery(history, 'a  b', 3)).toEqual(expected);
+  });
+});
+
+describe('removeQuery', () => {
+  it('removes a query regardless of case and spacing', () => {
+    expect(removeQuery([entry('Budget Plan', 1), entry('other', 2)], 'budget  plan')).toEqual([entry('other', 2)]);
+  });
+});
+
+describe('extractKeyPhrases', () => {
+  const segment = (text: string, i: number): TranscriptSegment => ({ id: `s${i}`, start: i, end: i + 1, text });
+
+  it('finds recurring phrases between stop words, longest first', () => {
+    const phrases = extractKeyPhrases([
+      'We talked about machine learning models today.',
+      'So machine learning models are, um, everywhere.',
+      'And the budget, the budget again.',
+      'Mentioned once: quantum.',
+    ].map(segment));
+    expect(phrases).toEqual(['machine learning models', 'budget']);
+  });
+
+  it('ignores numbers and short words', () => {
+    expect(extractKeyPhrases(['In 2024 we go, ox.', 'In 2024 we go, ox.'].map(segment))).toEqual([]);
+  });
+
+  it('keeps at most `limit` phrases', () => {
+    const text = 'alpha. bravo. charlie. delta.';
+    expect(extractKeyPhrases([text, text].map(segment), 2)).toHaveLength(2);
+  });
+});
+
+describe('suggestQueries', () => {
+  const history = [entry('budget cuts', 5), entry('cost of living', 9), entry('the budget plan', 7, true)];
+  const phrases = ['budget review', 'machine learning', 'cost of living'];
+  const texts = (input: string, limit?: number) => suggestQueries(input, history, phrases, limit).map(({ text, source }) => `${source}:${text}`);
+
+  it.each<[string, string[]]>([
+    ['', ['pinned:the budget plan', 'history:cost of living', 'history:budget cuts', 'phrase:budget review', 'phrase:machine learning']],
+    ['bud', ['pinned:the budget plan', 'history:budget cuts', 'phrase:budget review']],
+    ['learn', ['phrase:machine learning']],
+    ['udget', []],
+    ['budget cuts', []],
+  ])('suggests for %j', (input, expected) => {
+    expect(texts(input)).toEqual(expected);
+  });
+
+  it('keeps at most `limit` suggestions', () => {
+    expect(texts('', 2)).toEqual(['pinned:the budget plan', 'history:cost of living']);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * InsightCast Query Suggestions
+ *
+ * Search history bookkeeping and the autocomplete list shown under the
+ * search bar: pinned queries, recent queries and key phrases that occur
+ * repeatedly in the transcript.
+ */
+
+import type { SearchHistoryEntry, TranscriptSegment } from '../types';
+
+/** Unpinned queries kept per transcript; pinned ones don't count */
+const MAX_HISTORY_ENTRIES = 50;
+const MAX_PHRASE_WORDS = 3;
+/** A phrase must occur at least this often to be suggested */
+const MIN_PHRASE_COUNT = 2;
+const MIN_WORD_LENGTH = 3;
+
+// Function words and speech fillers; key phrases never start or end with one
+const STOP_WORDS = new Set([
+  'a', 'about', 'actually', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'around', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'don\'t',
+  'down', 'each', 'even', 'for', 'from', 'get', 'go', 'going', 'gonna', 'got', 'had', 'has', 'have', 'having', 'he',
+  'her', 'here', 'him', 'his', 'how', 'i', 'i\'m', 'if', 'in', 'into', 'is', 'it', 'it\'s', 'its', 'just', 'kind',
+  'know', 'let', 'like', 'lot', 'maybe', 'me', 'mean', 'more', 'most', 'much', 'my', 'no', 'not', 'now', 'of', 'oh',
+  'ok', 'okay', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'pretty', 'quite', 'really', 'right', 'said',
+  'say', 'see', 'she', 'so', 'some', 'something', 'sort', 'still', 'such', 'sure', 'than', 'that', 'that\'s', 'the',
+  'their', 'them', 'then', 'there', 'there\'s', 'these', 'they', 'they\'re', 'thing', 'things', 'think', 'this',
+  'those', 'through', 'to', 'too', 'uh', 'um', 'up', 'us', 'very', 'want', 'was', 'way', 'we', 'we\'re', 'well',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'yeah', 'yes', 'you', 'you\'re',
+  'your',
+]);
+
+export interface QuerySuggestion {
+  text: string;
+  source: 'pinned' | 'history' | 'phrase';
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ');
+}
+
+function sameQuery(a: string, b: string): boolean {
+  return normalizeQuery(a).toLowerCase() === normalizeQuery(b).toLowerCase();
+}
+
+/**
+ * History with `query` moved to the front, dropping the oldest unpinned
+ * entries beyond MAX_HISTORY_ENTRIES.
+ */
+export function recordQuery(entries: SearchHistoryEntry[], query: string, now = Date.now()): SearchHistoryEntry[] {
+  const text = normalizeQuery(query);
+  if (!text) return entries;
+
+  const existing = entries.find((entry) => sameQuery(entry.query, text));
+  const updated: SearchHistoryEntry = existing
+    ? { ...existing, query: text, lastUsed: now, uses: existing.uses + 1 }
+    : { query: text, lastUsed: now, uses: 1, pinned: false };
+
+  let unpinned = 0;
+  return [updated, ...entries.filter((entry) => entry !== existing)].filter((entry) =>
+    entry.pinned || ++unpinned <= MAX_HISTORY_ENTRIES
+  );
+}
+
+/**
+ * Pin `query` (adding it to the history if needed), or unpin it when it already is.
+ */
+export function togglePinnedQuery(entries: SearchHistoryEntry[], query: string, now = Date.now()): SearchHistoryEntry[] {
+  const text = normalizeQuery(query);
+  if (!text) return entries;
+
+  const existing = entries.find((entry) => sameQuery(entry.query, text));
+  if (!existing) return [{ query: text, lastUsed: now, uses: 0, pinned: true }, ...entries];
+  return entries.map((entry) => entry === existing ? { ...entry, pinned: !entry.pinned } : entry);
+}
+
+export function removeQuery(entries: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  return entries.filter((entry) => !sameQuery(entry.query, query));
+}
+
+/**
+ * Phrases of up to MAX_PHRASE_WORDS words that recur in the transcript,
+ * most salient first. Candidates are runs of content words between stop
+ * words and punctuation, RAKE style; longer phrases score higher, and a
+ * phrase that only ever appears inside a longer one is dropped.
+ */
+export function extractKeyPhrases(segments: TranscriptSegment[], limit = 30): string[] {
+  const counts = new Map<string, number>();
+
+  for (const segment of segments) {
+    for (const clause of segment.text.toLowerCase().split(/[.,;:!?()"—–]+/)) {
+      let run: string[] = [];
+      const words = clause.split(/\s+/).map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+      for (const word of [...words, '']) {
+        if (word && !STOP_WORDS.has(word) && !/^\d+$/.test(word)) {
+          run.push(word);
+          continue;
+        }
+        countNgrams(run, counts);
+        run = [];
+      }
+    }
+  }
+
+  const candidates = [...counts.entries()]
+    .filter(([phrase, count]) => count >= MIN_PHRASE_COUNT && (phrase.includes(' ') || phrase.length >= MIN_WORD_LENGTH))
+    .map(([phrase, count]) => ({ phrase, count, score: count * phrase.split(' ').length }));
+
+  return candidates
+    .filter(({ phrase, count }) => !candidates.some((other) =>
+      other.count === count && other.phrase !== phrase && ` ${other.phrase} `.includes(` ${phrase} `)
+    ))
+    .sort((a, b) => b.score - a.score || b.count - a.count)
+    .slice(0, limit)
+    .map(({ phrase }) => phrase);
+}
+
+function countNgrams(words: string[], counts: Map<string, number>): void {
+  for (let size = 1; size <= MAX_PHRASE_WORDS; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const phrase = words.slice(i, i + size).join(' ');
+      counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+    }
+  }
+}
+
+/**
+ * Autocomplete entries for `input`: matching pinned queries, then recent
+ * queries, then key phrases. Entries starting with the input rank above
+ * those where a later word starts with it. With an empty input, pinned and
+ * recent queries are listed with the top key phrases filling the rest.
+ */
+export function suggestQueries(
+  input: string,
+  history: SearchHistoryEntry[],
+  keyPhrases: string[],
+  limit = 8
+): QuerySuggestion[] {
+  const needle = normalizeQuery(input).toLowerCase();
+  const rank = (text: string) => {
+    const lower = text.toLowerCase();
+    if (!needle) return 0;
+    if (lower === needle) return -1;
+    if (lower.startsWith(needle)) return 0;
+    return lower.includes(` ${needle}`) ? 1 : -1;
+  };
+
+  const queries = history
+    .map((entry) => ({ entry, rank: rank(entry.query) }))
+    .filter(({ rank: r }) => r >= 0)
+    .sort((a, b) =>
+      Number(b.entry.pinned) - Number(a.entry.pinned) || a.rank - b.rank || b.entry.lastUsed - a.entry.lastUsed
+    )
+    .map(({ entry }): QuerySuggestion => ({ text: entry.query, source: entry.pinned ? 'pinned' : 'history' }));
+
+  const phrases = keyPhrases
+    .map((phrase, order) => ({ phrase, order, rank: rank(phrase) }))
+    .filter(({ phrase, rank: r }) => r >= 0 && !history.some((entry) => sameQuery(entry.query, phrase)))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(({ phrase }): QuerySuggestion => ({ text: phrase, source: 'phrase' }));
+
+  return [...queries, ...phrases].slice(0, limit);
+}
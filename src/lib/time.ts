@@ -0,0 +1,30 @@
+/**
+ * InsightCast Clock Times
+ *
+ * Reads the `m:ss` / `h:mm:ss` times users type into search filters, and
+ * writes times the same way wherever the UI and exports show them.
+ */
+
+/**
+ * Seconds for `"12:30"`, `"1:02:03"` or plain seconds (`"90"`), or null
+ * when `value` isn't a time.
+ */
+export function parseClock(value: string): number | null {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * `m:ss`, or `h:mm:ss` from an hour on.
+ */
+export function formatClock(seconds: number): string {
+  const total = isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0
+    ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+    : `${m}:${s.toString().padStart(2, '0')}`;
+}
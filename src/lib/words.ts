@@ -0,0 +1,85 @@
+/**
+ * InsightCast Word Timing Helpers
+ *
+ * Lookups over word-level timestamps: which word is playing, which words
+ * match a query, and where inside a segment a search hit actually starts.
+ */
+
+import type { TranscriptSegment, TranscriptWord } from '../types';
+import { parseQuery } from './query';
+
+/** Words of at most this length are too common to count as a match */
+const MIN_TERM_LENGTH = 3;
+/** Leading words of a matched window used to locate it inside the segment */
+const WINDOW_PROBE_WORDS = 3;
+
+export function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Normalized query words worth highlighting; operators and excluded terms are left out.
+ */
+export function getQueryTerms(query: string): string[] {
+  return parseQuery(query).text
+    .split(/\s+/)
+    .map(normalizeWord)
+    .filter((term) => term.length >= MIN_TERM_LENGTH);
+}
+
+/**
+ * Prefix match, so "privacy" also finds "privacy's" and "invest" finds "investing".
+ */
+export function matchesTerm(word: TranscriptWord, terms: string[]): boolean {
+  const normalized = normalizeWord(word.text);
+  return normalized.length > 0 && terms.some((term) => normalized.startsWith(term));
+}
+
+/**
+ * Index of the word being spoken at `time`, or -1 between words.
+ */
+export function findWordAt(words: TranscriptWord[], time: number): number {
+  return words.findIndex((word) => time >= word.start && time < word.end);
+}
+
+/**
+ * Time span of `answer` inside `segment` from its word timings, or
+ * undefined when the segment has no words or the answer isn't found.
+ */
+export function findAnswerSpan(segment: TranscriptSegment, answer: string): { start: number; end: number } | undefined {
+  const words = segment.words;
+  const terms = answer.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (!words || words.length === 0 || terms.length === 0) return undefined;
+
+  const index = words.findIndex((_, start) =>
+    terms.every((term, i) => normalizeWord(words[start + i]?.text ?? '') === term)
+  );
+  const first = words[index];
+  const last = words[index + terms.length - 1];
+  return first && last ? { start: first.start, end: last.end } : undefined;
+}
+
+/**
+ * Where playback should start for a search hit on `segment`:
+ * the first word matching the query, else the start of the window that
+ * matched semantically, else the segment start.
+ */
+export function findMatchTime(segment: TranscriptSegment, query: string, matchedText?: string): number {
+  const words = segment.words;
+  if (!words || words.length === 0) return segment.start;
+
+  const terms = getQueryTerms(query);
+  const firstMatch = words.find((word) => matchesTerm(word, terms));
+  if (firstMatch) return firstMatch.start;
+
+  if (matchedText) {
+    const probe = matchedText.split(/\s+/).map(normalizeWord).filter(Boolean).slice(0, WINDOW_PROBE_WORDS);
+    const index = words.findIndex((_, start) =>
+      probe.length > 0 && probe.every((term, i) => normalizeWord(words[start + i]?.text ?? '') === term)
+    );
+    const windowStart = words[index];
+    if (windowStart) return windowStart.start;
+  }
+
+  return segment.start;
+}
@@ -27,6 +27,62 @@ export interface TranscriptSegment {
   end: number;
   /** The transcribed text content */
   text: string;
+  /** Speaker ID within the episode (`S1`, `S2`... or a name from imported captions) */
+  speaker?: string;
+  /** Word-level timings, when the transcript source provides them */
+  words?: TranscriptWord[];
+  /** Language code detected for this segment's window, when detecting per window */
+  language?: string;
+  /** English translation of the text, for non-English episodes with translation enabled */
+  translation?: string;
+}
+
+/**
+ * A single word of a segment with its own timing.
+ */
+export interface TranscriptWord {
+  /** The word as spoken, without surrounding whitespace */
+  text: string;
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+}
+
+/**
+ * A transcribed audio file in the library.
+ * Every episode is indexed in the same Orama database, tagged by its ID.
+ */
+export interface Episode {
+  /** Stable identifier: SHA-256 of the audio file, or a generated ID for recordings */
+  id: string;
+  /** Original filename */
+  fileName: string;
+  /** Total audio duration in seconds */
+  duration: number;
+  /** All transcribed segments of this episode */
+  segments: TranscriptSegment[];
+  /** Unix timestamp (ms) when the episode was added */
+  createdAt: number;
+  /** Display names given to speaker IDs; unnamed speakers use a default label */
+  speakerNames?: Record<string, string>;
+  /** Spoken language code (`en`, `es`...) detected or chosen for the episode */
+  language?: string;
+  /** Topical chapters, once generated */
+  chapters?: Chapter[];
+}
+
+/**
+ * A topical section of an episode with a generated title and summary.
+ */
+export interface Chapter {
+  /** Chapter start in seconds */
+  start: number;
+  /** Chapter end in seconds */
+  end: number;
+  title: string;
+  /** A few sentences on what the chapter covers */
+  summary: string;
 }
 
 /**
@@ -43,10 +99,177 @@ export interface IndexedSegment extends TranscriptSegment {
  * Includes the original segment plus relevance scoring.
  */
 export interface SearchResult {
+  /** Episode the segment belongs to */
+  episodeId: string;
   /** The matching transcript segment */
   segment: TranscriptSegment;
   /** Relevance score from 0 (no match) to 1 (perfect match) */
   score: number;
+  /** The window of the segment that matched the query */
+  matchedText?: string;
+  /** The match was on the segment's English translation rather than its original text */
+  translated?: boolean;
+  /** Cross-encoder relevance of the matched chunk to the query (0-1), when reranking ran */
+  rerankScore?: number;
+  /** Segments merged into this result's range, in playback order, when adjacent matches were merged */
+  segmentIds?: string[];
+}
+
+/**
+ * An answer extracted from the transcript by the question answering model.
+ */
+export interface QAAnswer {
+  /** Answer text as it appears in the transcript */
+  text: string;
+  /** Model confidence from 0 to 1 */
+  score: number;
+  /** Answer start time in seconds (estimated within the segment until resolved from word timings) */
+  start: number;
+  /** Answer end time in seconds */
+  end: number;
+  /** Episode the answer was found in */
+  episodeId: string;
+  /** The segment supporting the answer */
+  segment: TranscriptSegment;
+  /** Passage the model read the answer from */
+  context: string;
+}
+
+/**
+ * Models the worker loaded, reported once they are ready.
+ */
+export interface ModelInfo {
+  /** Speech recognition model ID */
+  asr: string;
+  /** Sentence embedding model ID */
+  embedder: string;
+  /** Speaker embedding model ID; absent when diarization is unavailable */
+  diarizer?: string;
+  /** Cross-encoder reranking model ID; absent when reranking is off */
+  reranker?: string;
+}
+
+/** Weight precision to load a model with; `auto` picks per device */
+export type ModelDtype = 'auto' | 'fp32' | 'fp16' | 'q8' | 'q4';
+
+/**
+ * Configuration of the search ranking pipeline: hybrid retrieval, then
+ * rerankers, deduplication, a score floor and normalization.
+ */
+export interface RankingOptions {
+  /** Candidates fetched from the hybrid index before reranking */
+  candidates: number;
+  /** Minimum vector similarity a candidate needs to be retrieved */
+  similarity: number;
+  /** Boost chunks containing phrases that typically answer the detected question type */
+  intentBoost: { enabled: boolean; step: number; max: number };
+  /**
+   * Score each query/chunk pair with the cross-encoder, when one is loaded,
+   * and add `weight` times that score in place of the intent boost
+   */
+  crossEncoder: { enabled: boolean; weight: number };
+  /** Boost longer chunks: +1 per `charsPerPoint` characters, capped at `max` */
+  lengthBoost: { enabled: boolean; charsPerPoint: number; max: number };
+  /** Drop chunks whose first `prefixLength` characters repeat an earlier one */
+  dedupe: { enabled: boolean; prefixLength: number };
+  /** Results scoring at or below this are dropped; 0 keeps everything */
+  minScore: number;
+  /** Rescale scores so the best result sits just under 1 */
+  normalize: boolean;
+}
+
+/**
+ * How candidates are retrieved: BM25 keyword matching, embedding
+ * similarity, or Orama's hybrid of both.
+ */
+export type RetrievalMode = 'keyword' | 'vector' | 'hybrid';
+
+/**
+ * Part of each episode to search, in seconds. Negative values count back
+ * from the episode's end: `{ start: -600 }` is the last ten minutes.
+ */
+export interface TimeRange {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * User-adjustable search options, sent along with every query.
+ */
+export interface SearchFilters {
+  /** Maximum number of results */
+  limit: number;
+  /** Only return segments overlapping this range; omit to search everywhere */
+  timeRange?: TimeRange;
+  /** Drop results less relevant than this (0-1): cross-encoder score, else similarity to the query; keyword retrieval ignores it */
+  minScore: number;
+  retrieval: RetrievalMode;
+  /** Merge matches in back-to-back segments into one result spanning them */
+  mergeAdjacent: boolean;
+}
+
+/**
+ * A speaker of one episode; speaker IDs are only unique within an episode.
+ */
+export interface SpeakerRef {
+  episodeId: string;
+  speaker: string;
+}
+
+/**
+ * Query-language operators, applied to every candidate after retrieval.
+ */
+export interface QueryConstraints {
+  /** Each group lists lowercase alternatives; a result must contain one from every group */
+  required?: string[][];
+  /** Lowercase terms and phrases no result may contain */
+  excluded?: string[];
+  /** Only segments spoken by one of these speakers (empty: nobody matched) */
+  speakers?: SpeakerRef[];
+}
+
+/**
+ * A query run against one transcript, remembered for suggestions.
+ */
+export interface SearchHistoryEntry {
+  query: string;
+  /** Unix timestamp (ms) of the latest run */
+  lastUsed: number;
+  /** Number of times the query was run */
+  uses: number;
+  /** Saved by the user; pinned queries are listed first and never expire */
+  pinned: boolean;
+}
+
+/**
+ * Per-request changes to RankingOptions; nested stage options merge with the defaults.
+ */
+export type RankingOverrides = {
+  [K in keyof RankingOptions]?: RankingOptions[K] extends object ? Partial<RankingOptions[K]> : RankingOptions[K];
+};
+
+/**
+ * User-selectable model configuration, persisted by the worker.
+ */
+export interface ModelSettings {
+  /** Whisper checkpoint ID */
+  asrModel: string;
+  asrDtype: ModelDtype;
+  /** Sentence embedding model ID; its dimension sets the index schema */
+  embedderModel: string;
+  embedderDtype: ModelDtype;
+  /** `auto` keeps Whisper on WASM and runs the embedder on WebGPU when available */
+  device: 'auto' | 'webgpu' | 'wasm';
+  /** Spoken language code for multilingual Whisper models, or `auto` to detect it */
+  language: string;
+  /** Re-detect the language on every 30s window instead of once per file */
+  detectPerWindow: boolean;
+  /** Also translate non-English audio to English and index the translation */
+  translate: boolean;
+  /** Load a cross-encoder to rerank search candidates */
+  reranker: boolean;
+  /** Spread embedding over a pool of extra workers when the embedder runs on WASM */
+  parallelEmbedding: boolean;
 }
 
 // ============================================================================
@@ -61,6 +284,15 @@ export interface LoadModelsMessage {
   type: 'load';
 }
 
+/**
+ * Switch models. Only the models that changed are reloaded; a new embedder
+ * re-embeds the library from its stored transcripts instead of re-transcribing.
+ */
+export interface ConfigureMessage {
+  type: 'configure';
+  settings: ModelSettings;
+}
+
 /**
  * Transcribe pre-decoded audio samples.
  * Audio must be decoded on main thread (AudioContext not available in Workers).
@@ -68,12 +300,81 @@ export interface LoadModelsMessage {
  */
 export interface TranscribeMessage {
   type: 'transcribe';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
+  /** Job identifier, echoed on every progress/result message of this run */
+  jobId: string;
   /** Audio samples as Float32Array (16kHz mono) - decoded on main thread */
   audioSamples: Float32Array;
   /** Duration in seconds */
   duration: number;
   /** Original filename for reference */
   fileName: string;
+  /** Episode ID (SHA-256 of the audio file), also the persistence key */
+  episodeId: string;
+}
+
+/**
+ * Index a transcript that already exists (imported SRT/VTT/JSON) for an audio file.
+ * The worker skips Whisper entirely and only chunks, embeds and indexes the segments.
+ */
+export interface ImportTranscriptMessage {
+  type: 'import-transcript';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
+  /** Job identifier, echoed on every progress/result message of this run */
+  jobId: string;
+  /** Episode ID (SHA-256 of the audio file), also the persistence key */
+  episodeId: string;
+  /** Original audio filename for reference */
+  fileName: string;
+  /** Duration of the audio in seconds */
+  duration: number;
+  /** Segments parsed from the transcript file */
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Stop a running transcription job after the current window.
+ * Completed windows stay checkpointed so the job can be resumed later.
+ */
+export interface CancelMessage {
+  type: 'cancel';
+  /** Job to cancel */
+  jobId: string;
+}
+
+/**
+ * One rolling buffer of a live microphone recording.
+ * Buffers of a recording are transcribed and indexed in the order received.
+ */
+export interface RecordingChunkMessage {
+  type: 'recording-chunk';
+  /** Recording job, shared by all chunks and the final message */
+  jobId: string;
+  /** Episode the recording becomes */
+  episodeId: string;
+  /** Name the recorded file will be saved under */
+  fileName: string;
+  /** Audio samples as Float32Array (16kHz mono) */
+  samples: Float32Array;
+  /** Position of the first sample in the recording, in seconds */
+  offset: number;
+}
+
+/**
+ * The recording stopped: flush pending chunks and save the episode.
+ */
+export interface FinishRecordingMessage {
+  type: 'finish-recording';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
+  jobId: string;
+  episodeId: string;
+  /** Name given to the recorded file */
+  fileName: string;
+  /** Total recorded duration in seconds */
+  duration: number;
 }
 
 /**
@@ -82,10 +383,88 @@ export interface TranscribeMessage {
  */
 export interface SearchMessage {
   type: 'search';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
   /** Natural language search query */
   query: string;
   /** Maximum number of results to return (default: 10) */
   limit?: number;
+  /** Episodes to search; omit to search the whole library */
+  episodeIds?: string[];
+  /** Only return segments spoken by these speaker IDs */
+  speakers?: string[];
+  /** Ranking stages to change for this query; unset options keep their defaults */
+  ranking?: RankingOverrides;
+  /** Only return segments overlapping this range */
+  timeRange?: TimeRange;
+  /** Drop results less relevant than this (0-1): cross-encoder score, else similarity to the query; keyword retrieval ignores it */
+  minScore?: number;
+  /** Retrieval mode (default: hybrid) */
+  retrieval?: RetrievalMode;
+  /** Merge matches in back-to-back segments into one result */
+  mergeAdjacent?: boolean;
+  /** Phrases, exclusions and speakers from the query syntax */
+  constraints?: QueryConstraints;
+}
+
+/**
+ * Answer a question: retrieve the best passages like 'search' does, then
+ * extract the answer span from them with a question answering model.
+ */
+export interface AskMessage {
+  type: 'ask';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
+  /** Natural language question */
+  question: string;
+  /** Passages to read the answer from (default: 5) */
+  limit?: number;
+  /** Episodes to search; omit to search the whole library */
+  episodeIds?: string[];
+  /** Only consider segments spoken by these speaker IDs */
+  speakers?: string[];
+}
+
+/**
+ * Find moments similar to a transcript segment, using the segment's stored
+ * embedding as the query vector instead of embedding a text query.
+ */
+export interface FindSimilarMessage {
+  type: 'find-similar';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
+  /** Episode the source segment belongs to */
+  episodeId: string;
+  segmentId: string;
+  /** Maximum number of results to return (default: 10) */
+  limit?: number;
+  /** Episodes to search; omit to search the whole library */
+  episodeIds?: string[];
+  /** Only return segments overlapping this range */
+  timeRange?: TimeRange;
+  /** Drop results less relevant than this (0-1): cross-encoder score, else similarity to the query */
+  minScore?: number;
+  /** Merge matches in back-to-back segments into one result */
+  mergeAdjacent?: boolean;
+}
+
+/**
+ * Split an episode into topical chapters and summarize each one.
+ */
+export interface GenerateChaptersMessage {
+  type: 'generate-chapters';
+  episodeId: string;
+  /** Transcript to split; chapters are saved onto the stored episode */
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Remove one episode from the index and from persistent storage.
+ */
+export interface RemoveEpisodeMessage {
+  type: 'remove-episode';
+  /** Episode to remove */
+  episodeId: string;
 }
 
 /**
@@ -93,6 +472,8 @@ export interface SearchMessage {
  */
 export interface ClearMessage {
   type: 'clear';
+  /** Set by the RPC client; echoed on the reply */
+  requestId?: number;
 }
 
 /**
@@ -100,8 +481,17 @@ export interface ClearMessage {
  */
 export type WorkerInputMessage =
   | LoadModelsMessage
+  | ConfigureMessage
   | TranscribeMessage
+  | ImportTranscriptMessage
+  | CancelMessage
+  | RecordingChunkMessage
+  | FinishRecordingMessage
   | SearchMessage
+  | AskMessage
+  | FindSimilarMessage
+  | GenerateChaptersMessage
+  | RemoveEpisodeMessage
   | ClearMessage;
 
 // ============================================================================
@@ -114,8 +504,10 @@ export type WorkerInputMessage =
  */
 export interface ProgressMessage {
   type: 'progress';
+  /** Transcription job this update belongs to (absent while loading models) */
+  jobId?: string;
   /** Current operation stage */
-  stage: 'loading-asr' | 'loading-embedder' | 'transcribing' | 'embedding' | 'indexing';
+  stage: 'loading-asr' | 'loading-embedder' | 'loading-diarizer' | 'loading-reranker' | 'loading-qa' | 'loading-summarizer' | 'transcribing' | 'embedding' | 'indexing' | 'summarizing';
   /** Progress percentage (0-100) */
   progress: number;
   /** Human-readable status message */
@@ -126,6 +518,10 @@ export interface ProgressMessage {
   loaded?: number;
   /** Optional: Total size in bytes */
   total?: number;
+  /** Optional: Passages embedded per second */
+  throughput?: number;
+  /** Optional: Estimated seconds until the job finishes */
+  eta?: number;
 }
 
 /**
@@ -136,10 +532,9 @@ export interface ReadyMessage {
   /** Device being used for inference */
   device: 'webgpu' | 'wasm';
   /** Model information */
-  models: {
-    asr: string;
-    embedder: string;
-  };
+  models: ModelInfo;
+  /** Settings the models were loaded with */
+  settings: ModelSettings;
 }
 
 /**
@@ -147,19 +542,66 @@ export interface ReadyMessage {
  */
 export interface TranscriptionResultMessage {
   type: 'transcription-result';
-  /** All transcribed segments */
-  segments: TranscriptSegment[];
-  /** Total audio duration in seconds */
-  duration: number;
+  /** RPC request this replies to */
+  requestId?: number;
+  /** Job that produced the episode */
+  jobId: string;
+  /** The newly added (or already persisted) episode */
+  episode: Episode;
   /** Processing time in milliseconds */
   processingTime: number;
 }
 
+/**
+ * Segments of one more transcribed window, sent while the job is running.
+ * Lets the UI show and play the transcript before embedding finishes.
+ */
+export interface PartialSegmentsMessage {
+  type: 'partial-segments';
+  /** Job producing the segments */
+  jobId: string;
+  /** Episode being transcribed */
+  episodeId: string;
+  /** Original filename */
+  fileName: string;
+  /** Total audio duration in seconds */
+  duration: number;
+  /** Segments not sent before (all checkpointed ones when resuming) */
+  segments: TranscriptSegment[];
+  /** Seconds of audio transcribed so far */
+  covered: number;
+}
+
+/**
+ * A transcription job stopped on request.
+ * Its checkpoint is kept, so it is reported as resumable.
+ */
+export interface JobCancelledMessage {
+  type: 'job-cancelled';
+  /** RPC request this replies to */
+  requestId?: number;
+  /** Job that was cancelled */
+  jobId: string;
+  /** Checkpointed state to resume from; absent for jobs that cannot resume (imports) */
+  job?: ResumableJob;
+}
+
+/**
+ * Interrupted jobs found in storage after loading models.
+ */
+export interface ResumableJobsMessage {
+  type: 'resumable-jobs';
+  /** Jobs with a checkpoint but no finished episode */
+  jobs: ResumableJob[];
+}
+
 /**
  * Search results from Orama vector query.
  */
 export interface SearchResultsMessage {
   type: 'search-results';
+  /** RPC request this replies to */
+  requestId?: number;
   /** Matching segments with relevance scores */
   results: SearchResult[];
   /** Original query for reference */
@@ -168,11 +610,72 @@ export interface SearchResultsMessage {
   searchTime: number;
 }
 
+/**
+ * Answer to an 'ask' message, with the passages it was read from.
+ */
+export interface AnswerMessage {
+  type: 'answer';
+  /** RPC request this replies to */
+  requestId?: number;
+  question: string;
+  /** Best answer, or null when no passage answered with enough confidence */
+  answer: QAAnswer | null;
+  /** Retrieved passages, best first */
+  results: SearchResult[];
+  /** Retrieval plus extraction time in milliseconds */
+  searchTime: number;
+}
+
+/**
+ * Moments similar to a segment, answering a 'find-similar' message.
+ */
+export interface SimilarResultsMessage {
+  type: 'similar-results';
+  /** RPC request this replies to */
+  requestId?: number;
+  episodeId: string;
+  segmentId: string;
+  /** Similar segments, best first; the source segment itself is left out */
+  results: SearchResult[];
+  /** Search execution time in milliseconds */
+  searchTime: number;
+}
+
+/**
+ * The persisted library was restored into the index.
+ * Sent once after 'ready' when IndexedDB holds at least one episode.
+ */
+export interface RestoredMessage {
+  type: 'restored';
+  /** All restored episodes, oldest first */
+  episodes: Episode[];
+}
+
+/**
+ * Chapters generated for an episode.
+ */
+export interface ChaptersMessage {
+  type: 'chapters';
+  episodeId: string;
+  chapters: Chapter[];
+}
+
+/**
+ * An episode was removed from the library.
+ */
+export interface EpisodeRemovedMessage {
+  type: 'episode-removed';
+  /** ID of the removed episode */
+  episodeId: string;
+}
+
 /**
  * Database cleared successfully.
  */
 export interface ClearedMessage {
   type: 'cleared';
+  /** RPC request this replies to */
+  requestId?: number;
 }
 
 /**
@@ -180,12 +683,32 @@ export interface ClearedMessage {
  */
 export interface ErrorMessage {
   type: 'error';
+  /** RPC request this replies to */
+  requestId?: number;
   /** Error message */
   message: string;
   /** Original error stack (if available) */
   stack?: string;
   /** Which operation failed */
-  operation: 'load' | 'transcribe' | 'search' | 'clear';
+  operation: 'load' | 'configure' | 'transcribe' | 'import' | 'record' | 'search' | 'ask' | 'similar' | 'chapters' | 'remove-episode' | 'clear';
+  /** Transcription job that failed, if any */
+  jobId?: string;
+  /** Episode the failed chapters or removal were for */
+  episodeId?: string;
+}
+
+/**
+ * Posted by the coordinator's supervisor (not a worker) when a worker
+ * crashed or stopped answering heartbeats and is being restarted.
+ */
+export interface RecoveryMessage {
+  type: 'recovery';
+  worker: 'asr' | 'index';
+  status: 'restarting' | 'recovered' | 'failed';
+  /** Why the worker was restarted */
+  reason: string;
+  /** Interrupted requests sent again to the new worker */
+  retried?: number;
 }
 
 /**
@@ -195,10 +718,278 @@ export type WorkerOutputMessage =
   | ProgressMessage
   | ReadyMessage
   | TranscriptionResultMessage
+  | PartialSegmentsMessage
+  | JobCancelledMessage
+  | ResumableJobsMessage
   | SearchResultsMessage
+  | AnswerMessage
+  | SimilarResultsMessage
+  | ChaptersMessage
+  | RestoredMessage
+  | EpisodeRemovedMessage
   | ClearedMessage
+  | RecoveryMessage
   | ErrorMessage;
 
+// ============================================================================
+// ASR Worker Messages (Index Worker ↔ ASR Worker, routed by the coordinator)
+// ============================================================================
+
+/**
+ * Load the speech models for `settings`; the ASR worker only reloads what changed.
+ */
+export interface AsrConfigureMessage {
+  type: 'asr-configure';
+  requestId: number;
+  settings: ModelSettings;
+}
+
+/**
+ * Transcribe and diarize one window of audio.
+ */
+export interface AsrTranscribeMessage {
+  type: 'asr-transcribe';
+  requestId: number;
+  /** 16kHz mono audio; transferred, not copied */
+  samples: Float32Array;
+  /** Where the window starts in the file, in seconds */
+  offset: number;
+  /** Language already known for the file */
+  language?: string;
+  /** Speaker clusters so far; the reply carries them updated */
+  speakers: SpeakerCentroid[];
+}
+
+export type AsrRequestMessage = AsrConfigureMessage | AsrTranscribeMessage;
+
+export interface AsrConfiguredMessage {
+  type: 'asr-configured';
+  requestId: number;
+  device: 'webgpu' | 'wasm';
+  /** Speaker model, when it loaded; segments then come back with speaker labels */
+  diarizer?: string;
+}
+
+export interface AsrTranscriptMessage {
+  type: 'asr-transcript';
+  requestId: number;
+  segments: TranscriptSegment[];
+  /** Spoken language of the window, when known */
+  language?: string;
+  speakers: SpeakerCentroid[];
+}
+
+export interface AsrErrorMessage {
+  type: 'asr-error';
+  requestId: number;
+  message: string;
+}
+
+export type AsrResponseMessage = AsrConfiguredMessage | AsrTranscriptMessage | AsrErrorMessage;
+
+/**
+ * Everything the ASR worker posts: responses go back to the index worker,
+ * model download progress goes straight to the UI.
+ */
+export type AsrWorkerOutputMessage = AsrResponseMessage | ProgressMessage | PongMessage;
+
+export type AsrWorkerInputMessage = AsrRequestMessage | PingMessage;
+
+/**
+ * Heartbeat probe from the coordinator; a worker that can still run its
+ * message loop answers with a pong.
+ */
+export interface PingMessage {
+  type: 'ping';
+}
+
+export interface PongMessage {
+  type: 'pong';
+}
+
+/**
+ * The index worker receives the UI's messages plus replies from the ASR worker.
+ */
+export type IndexWorkerInputMessage = WorkerInputMessage | AsrResponseMessage | PingMessage;
+
+/**
+ * The index worker posts the UI's messages plus requests for the ASR worker.
+ */
+export type IndexWorkerOutputMessage = WorkerOutputMessage | AsrRequestMessage | PongMessage;
+
+// ============================================================================
+// Embedding Pool Messages (Worker → Embedding Worker and back)
+// ============================================================================
+
+/**
+ * Load the embedder; sent once when the pool starts.
+ */
+export interface EmbedderLoadMessage {
+  type: 'load';
+  id: number;
+  model: string;
+  dtype: Exclude<ModelDtype, 'auto'>;
+}
+
+/**
+ * Embed a batch of texts.
+ */
+export interface EmbedBatchMessage {
+  type: 'embed';
+  id: number;
+  texts: string[];
+}
+
+export type EmbeddingWorkerInputMessage = EmbedderLoadMessage | EmbedBatchMessage;
+
+export interface EmbedderLoadedMessage {
+  type: 'loaded';
+  id: number;
+}
+
+/**
+ * Normalized embeddings, in the order of the batch's texts.
+ */
+export interface EmbeddingsMessage {
+  type: 'embeddings';
+  id: number;
+  vectors: number[][];
+}
+
+export interface EmbeddingErrorMessage {
+  type: 'error';
+  /** Request that failed */
+  id: number;
+  message: string;
+}
+
+export type EmbeddingWorkerOutputMessage = EmbedderLoadedMessage | EmbeddingsMessage | EmbeddingErrorMessage;
+
+// ============================================================================
+// Persistence Types
+// ============================================================================
+
+/**
+ * Document shape stored in the Orama index.
+ * A long segment is split into several windows, each becoming one document.
+ */
+export interface IndexedDocument {
+  /** Orama document ID (`<segmentId>_<window>`, `<segmentId>_t<window>` for translations) */
+  id: string;
+  /** Episode the window belongs to (filterable) */
+  episodeId: string;
+  /** ID of the first transcript segment the window spans */
+  segmentId: string;
+  /** Every segment the window spans, in order (absent on documents indexed one segment at a time) */
+  segmentIds?: string[];
+  /** Window text, indexed for keyword search */
+  text: string;
+  /** Full text of the spanned segments (or their translations), used for display */
+  fullSegmentText: string;
+  /** The window comes from the segments' English translations */
+  translated?: boolean;
+  /** Start of the first spanned segment in seconds */
+  start: number;
+  /** End of the last spanned segment in seconds */
+  end: number;
+  /** Speaker of the segment (filterable) */
+  speaker?: string;
+  /** Embedding vector of the window text */
+  embedding: number[];
+}
+
+/**
+ * Episode plus its index documents, as stored in IndexedDB.
+ * Keyed by the episode ID (the audio file hash) so re-opening the same file
+ * never re-runs Whisper.
+ */
+export interface PersistedEpisode extends Episode {
+  /** Documents exactly as inserted into Orama, embeddings included */
+  documents: IndexedDocument[];
+  /** Embedding model the documents were produced with (absent: the original default) */
+  embedder?: string;
+  /** Version of the chunker that cut the documents (absent: one segment at a time) */
+  chunker?: number;
+}
+
+/**
+ * Progress of a transcription job, saved after every completed audio window.
+ * Keyed by episode ID: transcribing the same audio again resumes from here.
+ */
+export interface TranscriptionCheckpoint {
+  /** Job that last wrote this checkpoint */
+  jobId: string;
+  /** Episode being transcribed */
+  episodeId: string;
+  /** Original filename */
+  fileName: string;
+  /** Total audio duration in seconds */
+  duration: number;
+  /** Window length in seconds the job was started with */
+  windowSeconds: number;
+  /** Number of windows in the audio */
+  totalWindows: number;
+  /** Windows fully transcribed and embedded */
+  completedWindows: number;
+  /** Segments of all completed windows */
+  segments: TranscriptSegment[];
+  /** Index documents of all completed windows */
+  documents: IndexedDocument[];
+  /** Trailing segments without documents yet, held back to be chunked with the next window */
+  pendingSegments?: number;
+  /** Embedding model the documents were produced with */
+  embedder?: string;
+  /** Version of the chunker that cut the documents */
+  chunker?: number;
+  /** Speaker clusters found so far, so a resumed job keeps the same labels */
+  speakers?: SpeakerCentroid[];
+  /** Language detected for the file, so a resumed job doesn't detect it again */
+  language?: string;
+  /** Unix timestamp (ms) of the last checkpoint */
+  updatedAt: number;
+}
+
+/**
+ * Checkpoint without its transcript, as listed for resuming.
+ */
+export type CheckpointSummary = Omit<TranscriptionCheckpoint, 'segments' | 'documents'>;
+
+/**
+ * Segments and documents added by the checkpointed windows up to `window`.
+ * Stored as separate records so each checkpoint write costs one window, not
+ * the whole transcript so far.
+ */
+export interface CheckpointWindow {
+  episodeId: string;
+  /** Last audio window this record covers */
+  window: number;
+  segments: TranscriptSegment[];
+  documents: IndexedDocument[];
+}
+
+/**
+ * One speaker cluster built during diarization.
+ */
+export interface SpeakerCentroid {
+  /** Speaker ID assigned to segments (`S1`, `S2`...) */
+  id: string;
+  /** Mean (L2-normalized) speaker embedding of the cluster */
+  embedding: number[];
+  /** Number of segments merged into the cluster */
+  count: number;
+}
+
+/**
+ * Summary of an unfinished job, shown in the UI with a resume action.
+ */
+export interface ResumableJob {
+  jobId: string;
+  episodeId: string;
+  fileName: string;
+  /** Share of the audio already processed (0-100) */
+  progress: number;
+}
+
 // ============================================================================
 // Application State Types
 // ============================================================================
@@ -213,13 +1004,19 @@ export interface AppState {
   device: 'webgpu' | 'wasm' | null;
   /** Whether a transcription is in progress */
   isTranscribing: boolean;
+  /** Whether the microphone is being recorded */
+  isRecording: boolean;
   /** Whether a search is in progress */
   isSearching: boolean;
   /** Current progress information */
   progress: ProgressInfo | null;
   /** Loaded audio file information */
   audioFile: AudioFileInfo | null;
-  /** All transcribed segments */
+  /** All episodes in the library */
+  episodes: Episode[];
+  /** Episode shown in the player and transcript */
+  activeEpisodeId: string | null;
+  /** Segments of the active episode */
   segments: TranscriptSegment[];
   /** Current search results */
   searchResults: SearchResult[];
@@ -236,8 +1033,17 @@ export interface ProgressInfo {
   stage: string;
   progress: number;
   message: string;
+  /** Passages embedded per second, while embedding */
+  throughput?: number;
+  /** Estimated seconds left */
+  eta?: number;
 }
 
+/**
+ * Worker restart in progress (or just finished), shown as a banner.
+ */
+export type RecoveryInfo = Omit<RecoveryMessage, 'type'>;
+
 /**
  * Information about the loaded audio file.
  */
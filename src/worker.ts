@@ -1,364 +1,890 @@
+/**
+ * InsightCast Index Worker
+ *
+ * Owns the library: embedding, the Orama index, persistence, search, Q&A
+ * and chapters. Speech recognition runs on the ASR worker; transcription
+ * jobs are driven from here and send it one window at a time, so searches
+ * are answered in between.
+ */
+
 import {
   pipeline,
-  AutomaticSpeechRecognitionPipeline,
   FeatureExtractionPipeline,
-  type ProgressCallback,
+  QuestionAnsweringPipeline,
+  SummarizationPipeline,
 } from '@huggingface/transformers';
 
-import { create, insertMultiple, search, type Orama } from '@orama/orama';
+import { getByID, insertMultiple, removeMultiple } from '@orama/orama';
 
 import type {
-  WorkerInputMessage,
-  WorkerOutputMessage,
+  IndexWorkerInputMessage,
+  IndexWorkerOutputMessage,
+  AsrRequestMessage,
+  AsrResponseMessage,
+  AsrConfigureMessage,
+  AsrTranscribeMessage,
   TranscriptSegment,
-  SearchResult,
+  IndexedDocument,
+  PersistedEpisode,
+  Episode,
+  TranscribeMessage,
+  ImportTranscriptMessage,
+  SearchMessage,
+  AskMessage,
+  FindSimilarMessage,
+  QAAnswer,
+  GenerateChaptersMessage,
+  Chapter,
+  ModelSettings,
+  RecordingChunkMessage,
+  FinishRecordingMessage,
+  TranscriptionCheckpoint,
+  CheckpointSummary,
+  CheckpointWindow,
+  ResumableJob,
+  SpeakerCentroid,
 } from './types';
 
-const ASR_MODEL = 'onnx-community/whisper-base';
-const EMBEDDER_MODEL = 'Xenova/all-MiniLM-L6-v2'; 
-const EMBEDDING_DIM = 384; 
-
-const WINDOW_SIZE = 20; 
-const STRIDE = 12;      
-const QUESTION_PATTERNS = {
-  definition: /\b(what is|what are|define|meaning of|definition)\b/i,
-  origin: /\b(where does|where do|origin|source|come from|comes from)\b/i,
-  howTo: /\b(how can|how do|how to|ways to|improve|develop|better)\b/i,
-  example: /\b(example|examples|instance|such as|like what|give me|show me|real life)\b/i,
-  author: /\b(who|author|person|says|believes|believed|troward)\b/i, // Added specific author names here if known
-};
-
-const ANSWER_INDICATORS: Record<string, string[]> = {
-  definition: ['is', 'means', 'refers to', 'defined as', 'is like'],
-  origin: ['comes from', 'source', 'part of', 'connected to'],
-  howTo: ['by', 'through', 'learn to', 'practice', 'listening', 'trust'],
-  example: ['for example', 'such as', 'like when', 'imagine', 'think of'],
-  author: ['says', 'believes', 'believed', 'according to'],
-};
+import {
+  saveEpisode,
+  getEpisode,
+  getAllEpisodes,
+  deleteEpisode,
+  saveChapters,
+  saveCheckpoint,
+  appendCheckpointWindow,
+  getCheckpoint,
+  getAllCheckpoints,
+  deleteCheckpoint,
+  saveModelSettings,
+  getModelSettings,
+  clearStorage,
+} from './lib/storage';
+
+import { createSearchIndex, embedWindows, searchDocuments, segmentEmbedding, documentSegmentIds, yieldToEventLoop, type EmbedWindowsOptions, type SearchIndex } from './lib/search';
+import { chunkSegments, chunkSettledSegments, CHUNKER_VERSION, type ContextWindow } from './lib/chunking';
+import {
+  createEmbeddingPool,
+  createThroughputMeter,
+  embedTexts,
+  getEmbedBatchSize,
+  getEmbeddingPoolSize,
+  type EmbeddingPool,
+} from './lib/embedding';
+import { loadCrossEncoder, type CrossEncoder } from './lib/reranker';
+import { checkWebGPUSupport, createProgressCallback as createLoadingCallback, resolveDtype, type LoadingStage } from './lib/runtime';
+import { detectChapters, chapterText, titleFromSummary } from './lib/chapters';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  LEGACY_EMBEDDER_MODEL,
+  AUTO_LANGUAGE,
+  ASR_LANGUAGES,
+  RERANKER_MODEL,
+  QA_MODEL,
+  SUMMARIZER_MODEL,
+  getAsrModel,
+  getEmbedderModel,
+} from './lib/models';
+import { formatClock } from './lib/time';
+
+const SAMPLE_RATE = 16000;
+// Audio is transcribed in windows of Whisper's native 30s receptive field;
+// each finished window is checkpointed so a job can resume from it
+const CHECKPOINT_WINDOW_S = 30;
+// Ask mode answers below this confidence are reported as no answer
+const QA_MIN_SCORE = 0.1;
 
 let currentDevice: 'webgpu' | 'wasm' = 'wasm';
-let asrPipeline: AutomaticSpeechRecognitionPipeline | null = null;
+let settings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+// What each pipeline was loaded with, so configure only reloads what changed
+let loadedEmbedderConfig: string | null = null;
+let loadedRerankerConfig: string | null = null;
+let loadedPoolConfig: string | null = null;
+let embeddingDim = 0;
+// The ASR worker has a speech model loaded, and which speaker model if any
+let asrReady = false;
+let diarizerModel: string | undefined;
 let embedderPipeline: FeatureExtractionPipeline | null = null;
-let oramaDb: Orama<any> | null = null;
+// Optional: extra embedding workers, only used when the embedder runs on WASM
+let embeddingPool: EmbeddingPool | null = null;
+// Optional: only loaded when reranking is switched on in the settings
+let crossEncoder: CrossEncoder | null = null;
+// Loaded on the first question, so search-only sessions never download it
+let qaPipeline: QuestionAnsweringPipeline | null = null;
+// Likewise only loaded once chapters are first requested
+let summarizerPipeline: SummarizationPipeline | null = null;
+let oramaDb: SearchIndex | null = null;
+
+// Orama document IDs per episode, needed to remove a single episode from the index
+const episodeDocumentIds = new Map<string, string[]>();
+// Where each episode's indexed transcript ends, for time ranges counted from the end
+const episodeEnds = new Map<string, number>();
+
+// Jobs asked to stop; checked between windows
+const cancelledJobs = new Set<string>();
+
+interface RecordingJob {
+  episodeId: string;
+  // Detected on the first chunk when the language is set to auto
+  language?: string;
+  segments: TranscriptSegment[];
+  documents: IndexedDocument[];
+  // Trailing segments not embedded yet, so a sentence can run on into the next chunk
+  pending: TranscriptSegment[];
+  speakers: SpeakerCentroid[];
+  // Chunks must be transcribed strictly in the order they were recorded
+  queue: Promise<void>;
+  failed: boolean;
+}
+
+const recordingJobs = new Map<string, RecordingJob>();
 
-function postMessage(message: WorkerOutputMessage): void {
-  self.postMessage(message);
+// Requests to the ASR worker awaiting a reply, by request ID
+type AsrRequest = Omit<AsrConfigureMessage, 'requestId'> | Omit<AsrTranscribeMessage, 'requestId'>;
+
+const asrRequests = new Map<number, { resolve: (message: AsrResponseMessage) => void; reject: (error: Error) => void }>();
+let nextAsrRequestId = 0;
+
+function postMessage(message: IndexWorkerOutputMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
 }
 
 function log(message: string, data?: any) {
   console.log(`[Worker] ${message}`, data || '');
 }
 
-function generateId(): string {
-  return `seg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+function createIndex(): Promise<SearchIndex> {
+  return createSearchIndex(embeddingDim);
+}
+
+function toEpisode({ documents: _documents, ...episode }: PersistedEpisode): Episode {
+  return episode;
+}
+
+async function indexEpisodeDocuments(episodeId: string, documents: IndexedDocument[]): Promise<void> {
+  if (!oramaDb) throw new Error('Index not ready');
+  await insertMultiple(oramaDb, documents);
+  episodeDocumentIds.set(episodeId, documents.map((doc) => doc.id));
+  episodeEnds.set(episodeId, Math.max(0, ...documents.map((doc) => doc.end)));
 }
 
-async function checkWebGPUSupport(): Promise<boolean> {
-  if (!('gpu' in navigator)) return false;
+async function persistEpisode(episode: PersistedEpisode): Promise<void> {
   try {
-    if (!navigator.gpu) return false;
-    const adapter = await navigator.gpu.requestAdapter();
-    if (!adapter) return false;
-    return true;
-  } catch {
-    return false;
+    await saveEpisode(episode);
+  } catch (error) {
+    // Persistence is best-effort: a full quota must not fail the transcription
+    log('Failed to persist episode', error);
   }
 }
 
-function createProgressCallback(stage: 'loading-asr' | 'loading-embedder'): ProgressCallback {
-  return (progress) => {
-    if (progress.status === 'progress' && progress.progress !== undefined) {
-      postMessage({ type: 'progress', stage, progress: progress.progress, message: `Downloading ${progress.file ?? 'model'}...` });
-    } else if (progress.status === 'done') {
-      postMessage({ type: 'progress', stage, progress: 100, message: 'Model loaded successfully' });
-    } else if (progress.status === 'initiate') {
-      postMessage({ type: 'progress', stage, progress: 0, message: `Initializing ${progress.file ?? 'model'}...` });
+/**
+ * Index every persisted episode. Episodes embedded with a different model
+ * or cut by an older chunker are re-embedded from their stored segments
+ * first - no re-transcription.
+ */
+async function restoreLibrary(): Promise<Episode[]> {
+  try {
+    const persisted = await getAllEpisodes();
+    for (const [index, episode] of persisted.entries()) {
+      if ((episode.embedder ?? LEGACY_EMBEDDER_MODEL) !== settings.embedderModel || episode.chunker !== CHUNKER_VERSION) {
+        const progress = (index / persisted.length) * 100;
+        const message = `Re-embedding ${episode.fileName}...`;
+        const measure = createThroughputMeter();
+        postMessage({ type: 'progress', stage: 'embedding', progress, message });
+        episode.documents = await embedSegments(episode.id, episode.segments, (done, total) => {
+          const { rate, eta } = measure(done, total);
+          postMessage({ type: 'progress', stage: 'embedding', progress, message, throughput: rate, eta });
+        });
+        episode.embedder = settings.embedderModel;
+        episode.chunker = CHUNKER_VERSION;
+        await persistEpisode(episode);
+      }
+      await indexEpisodeDocuments(episode.id, episode.documents);
     }
-  };
+    log(`Restored ${persisted.length} episodes from storage`);
+    return persisted.map(toEpisode);
+  } catch (error) {
+    log('Failed to restore persisted library', error);
+    return [];
+  }
 }
 
-function chunkTextWithWindow(text: string): { text: string; startRatio: number; endRatio: number }[] {
-  const MIN_CHUNK_LENGTH = 100;
-  const MAX_CHUNK_LENGTH = 500;
-  
-  // Split by sentence ending punctuation
-  const sentenceRegex = /[^.!?]+[.!?]+["']?|[^.!?]+$/g;
-  const sentences = text.match(sentenceRegex)?.map(s => s.trim()).filter(s => s.length > 0) || [text];
+function createProgressCallback(stage: LoadingStage) {
+  return createLoadingCallback(stage, postMessage);
+}
 
-  // If text is short, return as single chunk
-  if (text.length < MAX_CHUNK_LENGTH) {
-    return [{ text, startRatio: 0, endRatio: 1 }];
-  }
+/**
+ * Send a request to the ASR worker (the coordinator routes it) and wait for
+ * its reply. Rejects with the ASR worker's error, or if it crashes first.
+ */
+function requestAsr(request: AsrRequest, transfer: Transferable[] = []): Promise<AsrResponseMessage> {
+  const requestId = nextAsrRequestId++;
+  return new Promise((resolve, reject) => {
+    asrRequests.set(requestId, { resolve, reject });
+    postMessage({ ...request, requestId } as AsrRequestMessage, transfer);
+  });
+}
 
-  const chunks: { text: string; startRatio: number; endRatio: number }[] = [];
-  
-  for (let i = 0; i < sentences.length; i += STRIDE) {
-    const windowSentences = sentences.slice(i, i + WINDOW_SIZE);
-    if (windowSentences.length === 0) break;
+function settleAsrRequest(reply: AsrResponseMessage): void {
+  const request = asrRequests.get(reply.requestId);
+  // Replies to requests nobody waits for anymore (e.g. replayed after a restart)
+  if (!request) return;
+  asrRequests.delete(reply.requestId);
+  if (reply.type === 'asr-error') request.reject(new Error(reply.message));
+  else request.resolve(reply);
+}
+
+/**
+ * Transcribe and diarize one window on the ASR worker. The samples are
+ * copied, so the caller keeps its audio.
+ */
+async function transcribeRemote(samples: Float32Array, offset: number, language: string | undefined, speakers: SpeakerCentroid[]) {
+  const copy = samples.slice();
+  const reply = await requestAsr({ type: 'asr-transcribe', samples: copy, offset, language, speakers }, [copy.buffer]);
+  if (reply.type !== 'asr-transcript') throw new Error(`Unexpected ${reply.type} reply from the ASR worker`);
+  return reply;
+}
+
+function postReady(): void {
+  postMessage({
+    type: 'ready',
+    device: currentDevice,
+    models: {
+      asr: settings.asrModel,
+      embedder: settings.embedderModel,
+      ...(diarizerModel ? { diarizer: diarizerModel } : {}),
+      ...(crossEncoder ? { reranker: RERANKER_MODEL } : {}),
+    },
+    settings,
+  });
+}
+
+/**
+ * Load (or, with `requested`, switch to) the configured models.
+ * Pipelines whose configuration did not change are kept; `settings` only
+ * advances past a model once it has loaded, so a failed switch leaves the
+ * previous models running.
+ */
+async function loadModels(requested?: ModelSettings): Promise<void> {
+  const operation = requested ? 'configure' : 'load';
+  try {
+    const saved = requested ? undefined : await getModelSettings().catch(() => undefined);
+    const target: ModelSettings = requested ?? { ...DEFAULT_MODEL_SETTINGS, ...saved };
+    if (target.language !== AUTO_LANGUAGE && !ASR_LANGUAGES.includes(target.language)) target.language = AUTO_LANGUAGE;
+    const asrOption = getAsrModel(target.asrModel);
+    const embedderOption = getEmbedderModel(target.embedderModel);
+    if (!asrOption || !embedderOption) throw new Error('Unknown model selection');
+
+    const hasWebGPU = await checkWebGPUSupport();
+    const embedderDevice = target.device !== 'wasm' && hasWebGPU ? 'webgpu' : 'wasm';
+    
+    log(`Initializing Models. GPU Available: ${hasWebGPU}`);
 
-    let chunkText = windowSentences.join(' ');
+    // ASR, on its own worker
+    const asr = await requestAsr({ type: 'asr-configure', settings: target });
+    if (asr.type !== 'asr-configured') throw new Error(`Unexpected ${asr.type} reply from the ASR worker`);
+    asrReady = true;
+    diarizerModel = asr.diarizer;
+    settings = {
+      ...settings,
+      asrModel: target.asrModel,
+      asrDtype: target.asrDtype,
+      device: target.device,
+      language: target.language,
+      detectPerWindow: target.detectPerWindow,
+      translate: target.translate,
+    };
     
-    // Skip if chunk is too small
-    if (chunkText.length < MIN_CHUNK_LENGTH && i + WINDOW_SIZE < sentences.length) {
-      continue;
+    // Embedder
+    const embedderDtype = resolveDtype(target.embedderDtype, embedderDevice === 'webgpu' ? 'fp16' : 'q8');
+    const embedderConfig = [target.embedderModel, embedderDtype, embedderDevice].join('|');
+    const embedderModelChanged = target.embedderModel !== settings.embedderModel || !oramaDb;
+    if (embedderConfig !== loadedEmbedderConfig) {
+      postMessage({ type: 'progress', stage: 'loading-embedder', progress: 0, message: `Loading ${embedderOption.label} (${embedderDevice.toUpperCase()})...` });
+      const next = await pipeline<'feature-extraction'>('feature-extraction', target.embedderModel, {
+        device: embedderDevice, dtype: embedderDtype, progress_callback: createProgressCallback('loading-embedder'),
+      });
+      await embedderPipeline?.dispose();
+      embedderPipeline = next;
+      loadedEmbedderConfig = embedderConfig;
+      currentDevice = embedderDevice;
     }
+    settings = { ...settings, embedderModel: target.embedderModel, embedderDtype: target.embedderDtype };
+
+    // Embedding pool (optional): WebGPU already batches on the GPU, so only WASM fans out
+    const poolConfig = target.parallelEmbedding && embedderDevice === 'wasm' ? [target.embedderModel, embedderDtype].join('|') : null;
+    if (poolConfig !== loadedPoolConfig) {
+      embeddingPool?.dispose();
+      embeddingPool = null;
+      loadedPoolConfig = null;
+      if (poolConfig) {
+        const size = getEmbeddingPoolSize();
+        postMessage({ type: 'progress', stage: 'loading-embedder', progress: 0, message: `Starting ${size} embedding workers...` });
+        try {
+          embeddingPool = await createEmbeddingPool(target.embedderModel, embedderDtype, size);
+          loadedPoolConfig = poolConfig;
+        } catch (error) {
+          log('Embedding pool unavailable, embedding on this worker', error);
+        }
+      }
+    }
+    settings = { ...settings, parallelEmbedding: embeddingPool !== null };
     
-    // Trim if chunk is too large
-    if (chunkText.length > MAX_CHUNK_LENGTH) {
-      chunkText = chunkText.substring(0, MAX_CHUNK_LENGTH);
+    // Cross-encoder (optional), on the embedder's device
+    const rerankerConfig = target.reranker ? [RERANKER_MODEL, embedderDevice].join('|') : null;
+    if (rerankerConfig !== loadedRerankerConfig) {
+      await crossEncoder?.dispose();
+      crossEncoder = null;
+      loadedRerankerConfig = null;
+      if (rerankerConfig) {
+        postMessage({ type: 'progress', stage: 'loading-reranker', progress: 0, message: `Loading Reranker (${embedderDevice.toUpperCase()})...` });
+        crossEncoder = await loadCrossEncoder(RERANKER_MODEL, {
+          device: embedderDevice, dtype: embedderDevice === 'webgpu' ? 'fp16' : 'q8', progress_callback: createProgressCallback('loading-reranker'),
+        });
+        loadedRerankerConfig = rerankerConfig;
+      }
     }
+    settings = { ...settings, reranker: crossEncoder !== null };
     
-    const chunkStartChar = text.indexOf(windowSentences[0] ?? ''); 
-    const chunkEndChar = chunkStartChar + chunkText.length;
-
-    chunks.push({
-      text: chunkText,
-      startRatio: Math.max(0, chunkStartChar / text.length),
-      endRatio: Math.min(1, chunkEndChar / text.length)
-    });
+    await saveModelSettings(settings).catch((error) => log('Failed to persist model settings', error));
+    
+    // A different embedder means a different vector space (and maybe size): rebuild the index
+    let restored: Episode[] = [];
+    if (embedderModelChanged) {
+      embeddingDim = embedderOption.dimensions;
+      oramaDb = await createIndex();
+      episodeDocumentIds.clear();
+      episodeEnds.clear();
+      restored = await restoreLibrary();
+    }
+    
+    postReady();
 
-    if (i + WINDOW_SIZE >= sentences.length) break;
+    // After a reconfigure the UI already holds these episodes
+    if (operation === 'load' && restored.length > 0) {
+      postMessage({ type: 'restored', episodes: restored });
+    }
+    await reportResumableJobs();
+    
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error', operation });
+    // Whatever loaded before the failure is still usable
+    if (operation === 'configure' && asrReady && embedderPipeline && oramaDb) postReady();
   }
+}
 
-  // Ensure we have at least one chunk
-  if (chunks.length === 0) {
-    chunks.push({ text, startRatio: 0, endRatio: 1 });
+function toResumableJob(checkpoint: CheckpointSummary): ResumableJob {
+  return {
+    jobId: checkpoint.jobId,
+    episodeId: checkpoint.episodeId,
+    fileName: checkpoint.fileName,
+    progress: (checkpoint.completedWindows / checkpoint.totalWindows) * 100,
+  };
+}
+
+async function saveCheckpointSafely(checkpoint: TranscriptionCheckpoint, added?: CheckpointWindow): Promise<void> {
+  try {
+    await (added ? appendCheckpointWindow(checkpoint, added) : saveCheckpoint(checkpoint));
+  } catch (error) {
+    log('Failed to save checkpoint', error);
   }
+}
 
-  return chunks;
+async function reportResumableJobs(): Promise<void> {
+  try {
+    const checkpoints = await getAllCheckpoints();
+    if (checkpoints.length > 0) {
+      postMessage({ type: 'resumable-jobs', jobs: checkpoints.map(toResumableJob) });
+    }
+  } catch (error) {
+    log('Failed to read checkpoints', error);
+  }
 }
 
+async function embedText(text: string): Promise<number[]> {
+  if (!embedderPipeline) throw new Error('Models not loaded');
+  const embeddingResult = await embedderPipeline(text, { pooling: 'mean', normalize: true });
+  return Array.from(embeddingResult.data);
+}
 
-function detectQuestionIntent(query: string): string[] {
-  const intents: string[] = [];
-  for (const [type, pattern] of Object.entries(QUESTION_PATTERNS)) {
-    if (pattern.test(query)) intents.push(type);
-  }
-  return intents.length > 0 ? intents : ['general'];
-}
-
-function calculateHeuristicBoost(text: string, intents: string[]): number {
-  let boost = 0;
-  const lowerText = text.toLowerCase();
-  
-  for (const intent of intents) {
-    const indicators = ANSWER_INDICATORS[intent] || [];
-    for (const indicator of indicators) {
-      if (lowerText.includes(indicator)) {
-        boost += 0.1;
+async function embedBatch(texts: string[]): Promise<number[][]> {
+  const pool = embeddingPool;
+  if (pool) {
+    try {
+      return await pool.embed(texts);
+    } catch (error) {
+      // A crashed pool worker fails every batch after it: finish on this worker's
+      // embedder, and let the next configure try starting a pool again
+      log('Embedding pool failed, embedding on this worker', error);
+      pool.dispose();
+      if (embeddingPool === pool) {
+        embeddingPool = null;
+        loadedPoolConfig = null;
+        settings = { ...settings, parallelEmbedding: false };
       }
     }
   }
-  return Math.min(boost, 0.3);
+  if (!embedderPipeline) throw new Error('Models not loaded');
+  return embedTexts(embedderPipeline, texts);
+}
+
+/** Windows per embedding call; a pool gets a full batch for each of its workers */
+function embeddingBatchSize(): number {
+  return getEmbedBatchSize(currentDevice) * (embeddingPool?.size ?? 1);
+}
+
+async function embedContextWindows(
+  episodeId: string,
+  windows: ContextWindow[],
+  onProgress?: EmbedWindowsOptions['onProgress']
+): Promise<IndexedDocument[]> {
+  if (!embedderPipeline) throw new Error('Models not loaded');
+  return embedWindows(episodeId, windows, embedBatch, embeddingDim, { batchSize: embeddingBatchSize(), onProgress });
 }
 
-async function loadModels(): Promise<void> {
+async function embedSegments(
+  episodeId: string,
+  segments: TranscriptSegment[],
+  onProgress?: EmbedWindowsOptions['onProgress']
+): Promise<IndexedDocument[]> {
+  return embedContextWindows(episodeId, chunkSegments(segments), onProgress);
+}
+
+async function transcribeAudio(message: TranscribeMessage): Promise<void> {
+  const { requestId, jobId, audioSamples, duration, fileName, episodeId } = message;
+  const startTime = performance.now();
   try {
-    const hasWebGPU = await checkWebGPUSupport();
-    const embedderDevice = hasWebGPU ? 'webgpu' : 'wasm';
-    
-    currentDevice = embedderDevice as 'webgpu' | 'wasm';
-    
-    log(`Initializing Models. GPU Available: ${hasWebGPU}`);
+    if (!asrReady || !embedderPipeline || !oramaDb) throw new Error('Models not loaded');
 
-    // ASR
-    postMessage({ type: 'progress', stage: 'loading-asr', progress: 5, message: 'Loading Whisper ASR (CPU)...' });
-    asrPipeline = await pipeline('automatic-speech-recognition', ASR_MODEL, {
-      device: 'wasm', dtype: 'q8', progress_callback: createProgressCallback('loading-asr'),
-    }) as any as AutomaticSpeechRecognitionPipeline;
-    
-    // Embedder
-    postMessage({ type: 'progress', stage: 'loading-embedder', progress: 0, message: `Loading Embedder (${embedderDevice.toUpperCase()})...` });
-    embedderPipeline = await pipeline('feature-extraction', EMBEDDER_MODEL, {
-      device: embedderDevice, dtype: embedderDevice === 'webgpu' ? 'fp16' : 'q8', progress_callback: createProgressCallback('loading-embedder'),
-    }) as any as FeatureExtractionPipeline;
-    
-    oramaDb = await create({
-      schema: {
-        id: 'string',
-        segmentId: 'string',
-        text: 'string',            // Indexed for Keyword Search
-        fullSegmentText: 'string', // Display text
-        start: 'number',
-        end: 'number',
-        embedding: 'vector[384]',  // Indexed for Vector Search
-      } as const,
-    });
-    
-    postMessage({ type: 'ready', device: currentDevice, models: { asr: ASR_MODEL, embedder: EMBEDDER_MODEL } });
+    const persisted = await getEpisode(episodeId).catch(() => undefined);
+    if (persisted) {
+      log(`Found persisted episode for ${fileName}, skipping ASR.`);
+      if (!episodeDocumentIds.has(episodeId)) {
+        await indexEpisodeDocuments(episodeId, persisted.documents);
+      }
+      postMessage({ type: 'transcription-result', requestId, jobId, episode: toEpisode(persisted), processingTime: performance.now() - startTime });
+      return;
+    }
+
+    const samplesPerWindow = SAMPLE_RATE * CHECKPOINT_WINDOW_S;
+    const totalWindows = Math.max(1, Math.ceil(audioSamples.length / samplesPerWindow));
+
+    const previous = await getCheckpoint(episodeId).catch(() => undefined);
+    const canResume = previous !== undefined
+      && previous.windowSeconds === CHECKPOINT_WINDOW_S
+      && previous.totalWindows === totalWindows;
+
+    const checkpoint: TranscriptionCheckpoint = canResume
+      ? { ...previous, jobId }
+      : { jobId, episodeId, fileName, duration, windowSeconds: CHECKPOINT_WINDOW_S, totalWindows, completedWindows: 0, segments: [], documents: [], speakers: [], embedder: settings.embedderModel, chunker: CHUNKER_VERSION, updatedAt: Date.now() };
+    // Checkpoints written before diarization existed have no clusters yet
+    checkpoint.speakers ??= [];
+
+    // Vectors from another embedder can't share the index: re-embed what is already transcribed
+    if ((checkpoint.embedder ?? LEGACY_EMBEDDER_MODEL) !== settings.embedderModel || checkpoint.chunker !== CHUNKER_VERSION) {
+      const { windows, pending } = chunkSettledSegments(checkpoint.segments, checkpoint.completedWindows >= totalWindows);
+      checkpoint.documents = await embedContextWindows(episodeId, windows);
+      checkpoint.pendingSegments = pending.length;
+      checkpoint.embedder = settings.embedderModel;
+      checkpoint.chunker = CHUNKER_VERSION;
+      await saveCheckpointSafely(checkpoint);
+    }
+
+    log(canResume
+      ? `Resuming ${fileName} at window ${checkpoint.completedWindows + 1}/${totalWindows}`
+      : `Starting Transcription of ${fileName} (${totalWindows} windows)...`);
+
+    const postPartial = (segments: TranscriptSegment[], covered: number) => {
+      postMessage({ type: 'partial-segments', jobId, episodeId, fileName, duration, segments, covered });
+    };
+    const postCoverage = (stage: 'transcribing' | 'embedding', covered: number, eta?: number, throughput?: number) => {
+      const verb = stage === 'transcribing' ? 'Transcribing' : 'Embedding';
+      postMessage({ type: 'progress', jobId, stage, progress: (covered / duration) * 100, message: `${verb} ${formatClock(covered)} / ${formatClock(duration)}`, eta, throughput });
+    };
+
+    // A resumed job first replays what the checkpoint already holds
+    if (checkpoint.segments.length > 0) {
+      postPartial(checkpoint.segments, Math.min(checkpoint.completedWindows * CHECKPOINT_WINDOW_S, duration));
+    }
+
+    // The job's ETA is measured in windows; embedding throughput per window, in passages
+    const firstWindow = checkpoint.completedWindows;
+    const measureJob = createThroughputMeter();
+
+    for (let w = firstWindow; w < totalWindows; w++) {
+      if (cancelledJobs.has(jobId)) {
+        cancelledJobs.delete(jobId);
+        log(`Job ${jobId} cancelled after ${w}/${totalWindows} windows`);
+        postMessage({ type: 'job-cancelled', requestId, jobId, job: toResumableJob(checkpoint) });
+        return;
+      }
+
+      const windowStart = w * CHECKPOINT_WINDOW_S;
+      const windowEnd = Math.min(windowStart + CHECKPOINT_WINDOW_S, duration);
+      const { eta } = measureJob(w - firstWindow, totalWindows - firstWindow);
+      postCoverage('transcribing', windowStart, eta);
+
+      const windowSamples = audioSamples.subarray(w * samplesPerWindow, (w + 1) * samplesPerWindow);
+      const { segments: windowSegments, language, speakers } = await transcribeRemote(windowSamples, windowStart, checkpoint.language, checkpoint.speakers);
+      checkpoint.language ??= language;
+      checkpoint.speakers = speakers;
+      postPartial(windowSegments, windowEnd);
+
+      postCoverage('embedding', windowEnd, eta);
+      // A sentence can run on past the window, so the segments of the last passage wait for the next one
+      const held = checkpoint.segments.slice(checkpoint.segments.length - (checkpoint.pendingSegments ?? 0));
+      const { windows, pending } = chunkSettledSegments([...held, ...windowSegments], w === totalWindows - 1);
+      const measureEmbedding = createThroughputMeter();
+      const windowDocuments = await embedContextWindows(episodeId, windows, (done, total) => {
+        postCoverage('embedding', windowEnd, eta, measureEmbedding(done, total).rate);
+      });
+
+      checkpoint.segments.push(...windowSegments);
+      checkpoint.documents.push(...windowDocuments);
+      checkpoint.pendingSegments = pending.length;
+      checkpoint.completedWindows = w + 1;
+      checkpoint.updatedAt = Date.now();
+      await saveCheckpointSafely(checkpoint, { episodeId, window: w, segments: windowSegments, documents: windowDocuments });
+    }
+
+    log(`Transcription done. Generated ${checkpoint.segments.length} segments.`);
+
+    postMessage({ type: 'progress', jobId, stage: 'indexing', progress: 100, message: `Indexing ${checkpoint.documents.length} passages...` });
+
+    const episode: Episode = { id: episodeId, fileName, duration, segments: checkpoint.segments, createdAt: Date.now(), language: checkpoint.language };
+    await indexEpisodeDocuments(episodeId, checkpoint.documents);
+    await persistEpisode({ ...episode, documents: checkpoint.documents, embedder: settings.embedderModel, chunker: CHUNKER_VERSION });
+    await deleteCheckpoint(episodeId).catch((error) => log('Failed to delete checkpoint', error));
+    postMessage({ type: 'transcription-result', requestId, jobId, episode, processingTime: performance.now() - startTime });
     
   } catch (error) {
-    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error', operation: 'load' });
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Transcription failed', operation: 'transcribe', jobId, requestId });
+  } finally {
+    cancelledJobs.delete(jobId);
   }
 }
 
-async function transcribeAudio(audioSamples: Float32Array, duration: number): Promise<void> {
+async function importTranscript(message: ImportTranscriptMessage): Promise<void> {
+  const { requestId, jobId, episodeId, fileName, duration, segments } = message;
   const startTime = performance.now();
   try {
-    if (!asrPipeline || !embedderPipeline || !oramaDb) throw new Error('Models not loaded');
-    
-    log('Starting Transcription...');
-
-    const transcriptionResult = await asrPipeline(audioSamples, {
-      return_timestamps: true, chunk_length_s: 30, stride_length_s: 5, language: 'english', task: 'transcribe',
-    });
-    
-    const segments: TranscriptSegment[] = [];
-    const results = Array.isArray(transcriptionResult) ? transcriptionResult : [transcriptionResult];
-    
-    for (const result of results) {
-      if (result.chunks && Array.isArray(result.chunks)) {
-        for (const chunk of result.chunks) {
-           const [start, end] = chunk.timestamp;
-           const text = chunk.text?.trim() ?? '';
-           if(text) segments.push({ id: generateId(), start, end, text });
-        }
+    if (!embedderPipeline || !oramaDb) throw new Error('Models not loaded');
+    log(`Importing ${segments.length} segments for ${fileName}, skipping ASR.`);
+
+    // The whole transcript is known up front, so it can be shown before embedding
+    postMessage({ type: 'partial-segments', jobId, episodeId, fileName, duration, segments, covered: duration });
+
+    // Windows are cut over the whole transcript so none ends at a batch boundary
+    const windows = chunkSegments(segments);
+    // One embedding call per iteration, checking for cancellation in between
+    const documents: IndexedDocument[] = [];
+    const batchSize = embeddingBatchSize();
+    const measure = createThroughputMeter();
+    for (let i = 0; i < windows.length; i += batchSize) {
+      if (cancelledJobs.has(jobId)) {
+        log(`Import ${jobId} cancelled after ${i}/${windows.length} passages`);
+        postMessage({ type: 'job-cancelled', requestId, jobId });
+        return;
       }
+
+      const { rate, eta } = measure(i, windows.length);
+      postMessage({
+        type: 'progress', jobId, stage: 'embedding', progress: (i / windows.length) * 100,
+        message: `Embedding passage ${i + 1} / ${windows.length}`, throughput: i > 0 ? rate : undefined, eta,
+      });
+      documents.push(...await embedWindows(episodeId, windows.slice(i, i + batchSize), embedBatch, embeddingDim, { batchSize }));
     }
 
-    log(`Transcription done. Generated ${segments.length} segments.`);
+    postMessage({ type: 'progress', jobId, stage: 'indexing', progress: 100, message: `Indexing ${documents.length} passages...` });
 
-    const documentsToIndex: any[] = [];
-    
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      if (!segment) continue;
-      
-      const chunks = chunkTextWithWindow(segment.text);
-      
-      for (let j = 0; j < chunks.length; j++) {
-        const chunk = chunks[j];
-        if (!chunk) continue;
-        
-        const embeddingResult = await embedderPipeline(chunk.text, { pooling: 'mean', normalize: true });
-        const embedding = Array.from(embeddingResult.data);
-        
-        if (embedding.length !== EMBEDDING_DIM) continue;
-
-        documentsToIndex.push({
-          id: `${segment.id}_${j}`,
-          segmentId: segment.id,
-          text: chunk.text, 
-          fullSegmentText: segment.text, // Store for display
-          start: segment.start,
-          end: segment.end,
-          embedding: embedding,
-        });
-      }
+    const episode: Episode = { id: episodeId, fileName, duration, segments, createdAt: Date.now() };
+    await indexEpisodeDocuments(episodeId, documents);
+    await persistEpisode({ ...episode, documents, embedder: settings.embedderModel, chunker: CHUNKER_VERSION });
+    // An imported transcript supersedes any interrupted Whisper run on the same audio
+    await deleteCheckpoint(episodeId).catch((error) => log('Failed to delete checkpoint', error));
+    postMessage({ type: 'transcription-result', requestId, jobId, episode, processingTime: performance.now() - startTime });
 
-      if (i % 5 === 0) {
-        postMessage({ type: 'progress', stage: 'embedding', progress: 60 + (i / segments.length) * 30, message: `Embedding ${i}/${segments.length}` });
-      }
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Import failed', operation: 'import', jobId, requestId });
+  } finally {
+    cancelledJobs.delete(jobId);
+  }
+}
+
+function enqueueRecordingChunk(message: RecordingChunkMessage): void {
+  const { jobId, episodeId, fileName, samples, offset } = message;
+
+  let job = recordingJobs.get(jobId);
+  if (!job) {
+    job = { episodeId, segments: [], documents: [], pending: [], speakers: [], queue: Promise.resolve(), failed: false };
+    recordingJobs.set(jobId, job);
+  }
+  const current = job;
+
+  current.queue = current.queue.then(async () => {
+    if (current.failed) return;
+    try {
+      if (!oramaDb) throw new Error('Models not loaded');
+
+      const { segments, language, speakers } = await transcribeRemote(samples, offset, current.language, current.speakers);
+      current.language ??= language;
+      current.speakers = speakers;
+      const { windows, pending } = chunkSettledSegments([...current.pending, ...segments]);
+      await addRecordingDocuments(current, await embedContextWindows(episodeId, windows));
+      current.segments.push(...segments);
+      current.pending = pending;
+
+      const covered = offset + samples.length / SAMPLE_RATE;
+      episodeEnds.set(episodeId, covered);
+      postMessage({ type: 'partial-segments', jobId, episodeId, fileName, duration: covered, segments, covered });
+    } catch (error) {
+      current.failed = true;
+      postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Live transcription failed', operation: 'record', jobId });
     }
+  });
+}
+
+/** Index right away so the recording is searchable while it is still going */
+async function addRecordingDocuments(job: RecordingJob, documents: IndexedDocument[]): Promise<void> {
+  if (!oramaDb) throw new Error('Models not loaded');
+  await insertMultiple(oramaDb, documents);
+  job.documents.push(...documents);
+  episodeDocumentIds.set(job.episodeId, job.documents.map((doc) => doc.id));
+}
+
+async function finishRecording(message: FinishRecordingMessage): Promise<void> {
+  const { requestId, jobId, episodeId, fileName, duration } = message;
+  const startTime = performance.now();
+  try {
+    const job = recordingJobs.get(jobId);
+    if (job) await job.queue;
+    recordingJobs.delete(jobId);
+    if (job && !job.failed && job.pending.length > 0) {
+      await addRecordingDocuments(job, await embedContextWindows(episodeId, chunkSegments(job.pending)));
+    }
+
+    const segments = job?.segments ?? [];
+    const documents = job?.documents ?? [];
+    const episode: Episode = { id: episodeId, fileName, duration, segments, createdAt: Date.now(), language: job?.language };
+
+    await persistEpisode({ ...episode, documents, embedder: settings.embedderModel, chunker: CHUNKER_VERSION });
+    log(`Recording saved: ${segments.length} segments over ${formatClock(duration)}`);
+    postMessage({ type: 'transcription-result', requestId, jobId, episode, processingTime: performance.now() - startTime });
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Failed to save recording', operation: 'record', jobId, requestId });
+  }
+}
+
+async function semanticSearch(message: SearchMessage): Promise<void> {
+  const { requestId, query, limit = 10, episodeIds, speakers, ranking, timeRange, minScore, retrieval = 'hybrid', mergeAdjacent, constraints } = message;
+  const startTime = performance.now();
+  try {
+    if (!embedderPipeline || !oramaDb) throw new Error('Models not ready');
+    log(`Searching for: "${query}" (${retrieval})`);
+
+    // Keyword search has no use for the query embedding
+    const queryVector = retrieval === 'keyword' ? [] : await embedText(query);
+    const results = await searchDocuments(oramaDb, query, queryVector, {
+      limit, episodeIds, speakers, ranking, crossEncode: crossEncoder?.score,
+      timeRange, episodeEnds, minScore, retrieval, mergeAdjacent, constraints,
+    });
     
-    await insertMultiple(oramaDb, documentsToIndex as any);
-    postMessage({ type: 'transcription-result', segments, duration, processingTime: performance.now() - startTime });
+    postMessage({ type: 'search-results', requestId, results, query, searchTime: performance.now() - startTime });
     
   } catch (error) {
-    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Transcription failed', operation: 'transcribe' });
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Search failed', operation: 'search', requestId });
+  }
+}
+
+async function getQaPipeline(): Promise<QuestionAnsweringPipeline> {
+  if (!qaPipeline) {
+    postMessage({ type: 'progress', stage: 'loading-qa', progress: 0, message: 'Loading Question Answering model (CPU)...' });
+    qaPipeline = await pipeline<'question-answering'>('question-answering', QA_MODEL, {
+      device: 'wasm', dtype: 'q8', progress_callback: createProgressCallback('loading-qa'),
+    });
   }
+  return qaPipeline;
 }
 
-async function semanticSearch(query: string, limit: number = 10): Promise<void> {
+/**
+ * Where `answer` falls in time, assuming speech runs at an even pace across
+ * the segment. The main thread refines this from word timings when it has them.
+ */
+function estimateAnswerTime(segment: TranscriptSegment, context: string, answer: string): { start: number; end: number } {
+  const contextOffset = segment.text.indexOf(context);
+  const answerOffset = context.toLowerCase().indexOf(answer.toLowerCase());
+  if (contextOffset === -1 || answerOffset === -1 || segment.text.length === 0) {
+    return { start: segment.start, end: segment.end };
+  }
+
+  const duration = segment.end - segment.start;
+  const from = (contextOffset + answerOffset) / segment.text.length;
+  const to = Math.min(1, (contextOffset + answerOffset + answer.length) / segment.text.length);
+  return { start: segment.start + from * duration, end: segment.start + to * duration };
+}
+
+async function answerQuestion(message: AskMessage): Promise<void> {
+  const { requestId, question, limit = 5, episodeIds, speakers } = message;
   const startTime = performance.now();
   try {
     if (!embedderPipeline || !oramaDb) throw new Error('Models not ready');
-    log(`Searching for: "${query}"`);
-
-    // 1. Intent Detection
-    const intents = detectQuestionIntent(query);
-    log(`Detected intents: ${intents.join(', ')}`);
-
-    // 2. Generate Vector
-    const embeddingResult = await embedderPipeline(query, { pooling: 'mean', normalize: true });
-    const queryVector = Array.from(embeddingResult.data);
-
-    const searchResults = await search(oramaDb, {
-      mode: 'hybrid', 
-      term: query, // Uses BM25 (Keyword matching)
-      vector: {
-        value: queryVector,
-        property: 'embedding', // Uses Vector Similarity
-      },
-      properties: ['text'], // Perform keyword search on the text field
-      limit: 30, // Fetch more to allow for better re-ranking
-      similarity: 0.3, // Lower threshold to get more candidates
+    log(`Answering: "${question}"`);
+
+    const results = await searchDocuments(oramaDb, question, await embedText(question), {
+      limit, episodeIds, speakers, crossEncode: crossEncoder?.score,
     });
+    const qa = await getQaPipeline();
 
-    log(`Found ${searchResults.hits.length} hybrid hits.`);
-
-    // 4. Heuristic Re-ranking and Deduplication
-    const scoredResults = new Map<string, any>();
-    const seenTexts = new Set<string>();
-
-    for (const hit of searchResults.hits) {
-      const doc = hit.document as any;
-      
-      // Skip very similar chunks (deduplication)
-      const textPreview = doc.text.substring(0, 50).toLowerCase();
-      if (seenTexts.has(textPreview)) continue;
-      seenTexts.add(textPreview);
-      
-      const heuristicBoost = calculateHeuristicBoost(doc.text, intents);
-      
-      // Boost longer, more informative chunks
-      const lengthBoost = Math.min(doc.text.length / 300, 0.2);
-      
-      const finalScore = hit.score + heuristicBoost + lengthBoost;
-
-      const existing = scoredResults.get(doc.segmentId);
-      if (!existing || finalScore > existing.score) {
-        scoredResults.set(doc.segmentId, {
-          segment: {
-            id: doc.segmentId,
-            text: doc.fullSegmentText, // Display full context
-            start: doc.start,
-            end: doc.end,
-          },
-          score: finalScore,
-          matchedText: doc.text // Store the specific chunk that matched
-        });
-      }
+    // Read every retrieved passage and keep the most confident span
+    let answer: QAAnswer | null = null;
+    for (const result of results) {
+      const context = result.matchedText ?? result.segment.text;
+      const output = await qa(question, context) as { answer: string; score: number };
+      const text = output.answer.trim();
+      if (!text || (answer && output.score <= answer.score)) continue;
+
+      answer = {
+        text,
+        score: output.score,
+        ...estimateAnswerTime(result.segment, context, text),
+        episodeId: result.episodeId,
+        segment: result.segment,
+        context,
+      };
     }
 
-    let results: SearchResult[] = Array.from(scoredResults.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    postMessage({
+      type: 'answer',
+      requestId,
+      question,
+      answer: answer && answer.score >= QA_MIN_SCORE ? answer : null,
+      results,
+      searchTime: performance.now() - startTime,
+    });
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Question answering failed', operation: 'ask', requestId });
+  }
+}
 
-    // Filter out low-quality results
-    const MIN_SCORE_THRESHOLD = 0.1;
-    results = results.filter(r => r.score > MIN_SCORE_THRESHOLD);
+/**
+ * Search with a segment's stored embedding rather than an embedded text
+ * query. Retrieval is vector-only, since there are no keywords to match.
+ */
+async function findSimilarMoments(message: FindSimilarMessage): Promise<void> {
+  const { requestId, episodeId, segmentId, limit = 10, episodeIds, timeRange, minScore, mergeAdjacent } = message;
+  const startTime = performance.now();
+  try {
+    if (!oramaDb) throw new Error('Index not ready');
+    const db = oramaDb;
+
+    // Windows can start in an earlier segment, so look through all of the episode's documents
+    const documents = (await Promise.all((episodeDocumentIds.get(episodeId) ?? []).map((id) => getByID(db, id))))
+      .map((document) => document as unknown as IndexedDocument | undefined)
+      .filter((document): document is IndexedDocument => document !== undefined && documentSegmentIds(document).includes(segmentId));
+    if (documents.length === 0) throw new Error('This segment is not indexed yet');
+
+    log(`Finding moments similar to segment ${segmentId}`);
+    const results = await searchDocuments(db, '', segmentEmbedding(documents), {
+      limit, episodeIds, timeRange, episodeEnds, minScore, mergeAdjacent,
+      retrieval: 'vector',
+      excludeSegment: { episodeId, segmentId },
+    });
 
-    if (results.length > 0 && results[0] !== undefined) {
-      const maxScore = results[0].score;
-      results = results.map(r => ({
-        ...r,
-        score: Math.min(r.score / (maxScore * 1.1), 0.99)
-      }));
-    }
-    
-    postMessage({ type: 'search-results', results, query, searchTime: performance.now() - startTime });
-    
+    postMessage({ type: 'similar-results', requestId, episodeId, segmentId, results, searchTime: performance.now() - startTime });
   } catch (error) {
-    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Search failed', operation: 'search' });
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Similarity search failed', operation: 'similar', requestId });
   }
 }
 
-async function clearDatabase(): Promise<void> {
-    oramaDb = await create({
-      schema: {
-        id: 'string', segmentId: 'string', text: 'string', fullSegmentText: 'string', start: 'number', end: 'number', embedding: 'vector[384]',
-      } as const,
+async function getSummarizerPipeline(): Promise<SummarizationPipeline> {
+  if (!summarizerPipeline) {
+    postMessage({ type: 'progress', stage: 'loading-summarizer', progress: 0, message: 'Loading Summarization model (CPU)...' });
+    summarizerPipeline = await pipeline<'summarization'>('summarization', SUMMARIZER_MODEL, {
+      device: 'wasm', dtype: 'q8', progress_callback: createProgressCallback('loading-summarizer'),
     });
-    postMessage({ type: 'cleared' });
+  }
+  return summarizerPipeline;
+}
+
+async function generateChapters(message: GenerateChaptersMessage): Promise<void> {
+  const { episodeId, segments } = message;
+  try {
+    if (!embedderPipeline) throw new Error('Models not ready');
+    postMessage({ type: 'progress', stage: 'summarizing', progress: 0, message: 'Finding topic shifts...' });
+    const spans = await detectChapters(segments, embedText);
+    const summarizer = await getSummarizerPipeline();
+
+    const chapters: Chapter[] = [];
+    for (const [index, span] of spans.entries()) {
+      postMessage({ type: 'progress', stage: 'summarizing', progress: (index / spans.length) * 100, message: `Summarizing chapter ${index + 1} of ${spans.length}...` });
+      // The typings ask for a complete generation config rather than the overrides
+      const [output] = await summarizer(chapterText(span), { max_new_tokens: 80 } as Parameters<typeof summarizer>[1]) as { summary_text: string }[];
+      const summary = output?.summary_text.trim() ?? '';
+      chapters.push({ start: span.start, end: span.end, title: titleFromSummary(summary) || `Chapter ${index + 1}`, summary });
+      await yieldToEventLoop();
+    }
+    log(`Generated ${chapters.length} chapters for ${episodeId}`);
+
+    try {
+      await saveChapters(episodeId, chapters);
+    } catch (error) {
+      log('Failed to persist chapters', error);
+    }
+    postMessage({ type: 'chapters', episodeId, chapters });
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Chapter generation failed', operation: 'chapters', episodeId });
+  }
+}
+
+async function removeEpisode(episodeId: string): Promise<void> {
+  try {
+    if (!oramaDb) throw new Error('Index not ready');
+
+    const documentIds = episodeDocumentIds.get(episodeId) ?? [];
+    await removeMultiple(oramaDb, documentIds);
+    episodeDocumentIds.delete(episodeId);
+    episodeEnds.delete(episodeId);
+    await deleteEpisode(episodeId);
+
+    postMessage({ type: 'episode-removed', episodeId });
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Failed to remove episode', operation: 'remove-episode', episodeId });
+  }
+}
+
+async function clearDatabase(requestId?: number): Promise<void> {
+  try {
+    oramaDb = await createIndex();
+    episodeDocumentIds.clear();
+    episodeEnds.clear();
+    await clearStorage().catch((error) => log('Failed to clear persisted data', error));
+    // Model choices are preferences, not library data
+    await saveModelSettings(settings).catch((error) => log('Failed to persist model settings', error));
+    postMessage({ type: 'cleared', requestId });
+  } catch (error) {
+    postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Failed to clear the library', operation: 'clear', requestId });
+  }
 }
 
-self.onmessage = async (event: MessageEvent<WorkerInputMessage>) => {
+self.onmessage = async (event: MessageEvent<IndexWorkerInputMessage>) => {
   const message = event.data;
   switch (message.type) {
+    case 'ping': postMessage({ type: 'pong' }); break;
+    case 'asr-configured':
+    case 'asr-transcript':
+    case 'asr-error': settleAsrRequest(message); break;
     case 'load': await loadModels(); break;
-    case 'transcribe': await transcribeAudio(message.audioSamples, message.duration); break;
-    case 'search': await semanticSearch(message.query, message.limit ?? 10); break;
-    case 'clear': await clearDatabase(); break;
+    case 'configure': await loadModels(message.settings); break;
+    case 'transcribe': await transcribeAudio(message); break;
+    case 'import-transcript': await importTranscript(message); break;
+    case 'cancel': cancelledJobs.add(message.jobId); break;
+    case 'recording-chunk': enqueueRecordingChunk(message); break;
+    case 'finish-recording': await finishRecording(message); break;
+    case 'search': await semanticSearch(message); break;
+    case 'ask': await answerQuestion(message); break;
+    case 'find-similar': await findSimilarMoments(message); break;
+    case 'generate-chapters': await generateChapters(message); break;
+    case 'remove-episode': await removeEpisode(message.episodeId); break;
+    case 'clear': await clearDatabase(message.requestId); break;
   }
 };
\ No newline at end of file